@@ -0,0 +1,70 @@
+// scripts/checkJsonExtraction.ts
+
+import { createFixtureSource, extractThreadFromJson } from '../src/extraction/redditJson';
+import thread from './fixtures/redditThread.json';
+import moreChildren from './fixtures/redditMoreChildren.json';
+
+/**
+ * Run JSON extraction offline against a saved thread and its morechildren
+ * responses, and compare the flattened comments with what the page would read:
+ * tree order, depth, removed comments left out (their replies kept) and hidden
+ * scores reported as null.
+ */
+
+const PERMALINK = '/r/test/comments/abc123/what_is_the_best_fixture/';
+
+const EXPECTED_COMMENTS = [
+  { id: 't1_c1', author: 'alice', depth: 0, score: 10, isOp: false },
+  { id: 't1_c2', author: 'op_user', depth: 1, score: 3, isOp: true },
+  { id: 't1_c4', author: 'bob', depth: 3, score: 2, isOp: false },
+  { id: 't1_c5', author: 'dave', depth: 1, score: 4, isOp: false },
+  { id: 't1_c7', author: 'carol', depth: 0, score: null, isOp: false },
+  { id: 't1_c8', author: 'frank', depth: 0, score: 0, isOp: false }
+];
+
+const failures: string[] = [];
+
+function expectEqual(label: string, actual: unknown, expected: unknown) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    failures.push(`${label}\n   expected ${JSON.stringify(expected)}\n   got      ${JSON.stringify(actual)}`);
+  }
+}
+
+async function run() {
+  const result = await extractThreadFromJson(PERMALINK, createFixtureSource(thread, moreChildren), {
+    maxDepth: 10,
+    maxTopLevel: 50,
+    maxTotal: 100,
+    strategy: 'balanced',
+    linkMode: 'remove'
+  });
+
+  expectEqual('post', { title: result.title, body: result.body, author: result.author }, {
+    title: 'What is the best fixture?',
+    body: 'Asking for science.',
+    author: 'op_user'
+  });
+
+  expectEqual(
+    'comments (order, depth, removed, hidden scores)',
+    result.comments.map(({ id, author, depth, score, isOp }) => ({ id, author, depth, score, isOp })),
+    EXPECTED_COMMENTS
+  );
+
+  const byId = new Map(result.comments.map(comment => [comment.id, comment]));
+  expectEqual('markdown is flattened', byId.get('t1_c2')?.text, 'Agreed, thanks.');
+  expectEqual('links are kept', byId.get('t1_c5')?.links, [{ text: 'the docs', url: 'https://example.com/docs' }]);
+  expectEqual('timestamps are in milliseconds', byId.get('t1_c7')?.createdAt, 1700000400000);
+  expectEqual('no DOM elements', result.comments.every(comment => comment.element === null), true);
+
+  failures.forEach(failure => console.error(`❌ ${failure}`));
+  if (failures.length > 0) {
+    throw new Error(`${failures.length} JSON extraction check(s) failed`);
+  }
+  console.log('✅ JSON extraction matches the fixtures');
+}
+
+run().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,20 @@
+// scripts/checkNormalization.ts
+
+import { findFailingExamples } from '../src/playback/normalization';
+
+/**
+ * Every normalization rule documents examples (shown in Settings); fail when a
+ * rule no longer turns an input into its documented output.
+ */
+
+const failures = findFailingExamples();
+
+failures.forEach(failure => {
+  console.error(`❌ ${failure.id}: "${failure.input}"\n   expected "${failure.output}"\n   got      "${failure.actual}"`);
+});
+
+if (failures.length > 0) {
+  throw new Error(`${failures.length} normalization example(s) failed`);
+}
+
+console.log('✅ Normalization examples pass');
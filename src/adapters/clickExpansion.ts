@@ -0,0 +1,134 @@
+// src/adapters/clickExpansion.ts
+
+import { ExpansionOptions } from './pageAdapter';
+import { selectExpansionTargets } from '../utils/expansionStrategy';
+
+/**
+ * A "load more" control on the page and the depth of the comments it loads
+ */
+export interface LoadMoreButton {
+  button: HTMLElement;
+  depth: number;
+}
+
+/**
+ * Page-specific queries used by the shared click-to-expand loop
+ */
+export interface ClickExpansionSource {
+  countComments(): number;
+  countTopLevel(): number;
+  findLoadMoreButtons(): LoadMoreButton[];
+}
+
+/**
+ * Auto-expand "More replies" buttons with strategy support
+ */
+export async function expandByClicking(source: ClickExpansionSource, options: ExpansionOptions): Promise<void> {
+  const { targetDepth, maxTopLevel, maxTotal, strategy, shouldStop, onProgress } = options;
+  console.log(`🔄 Expanding comments (depth: ${targetDepth}, topLevel: ${maxTopLevel}, total: ${maxTotal}, strategy: ${strategy})...`);
+
+  // Check initial state
+  const initialCount = source.countComments();
+  const initialTopLevel = source.countTopLevel();
+  onProgress(initialCount);
+  console.log(`📊 Initial state: ${initialCount} total, ${initialTopLevel} top-level`);
+
+  // If we already have too many, don't expand at all
+  if (initialCount >= maxTotal) {
+    console.log(`⚠️  Already at/over limit (${initialCount}/${maxTotal}). Not expanding.`);
+    return;
+  }
+
+  if (initialTopLevel >= maxTopLevel) {
+    console.log(`⚠️  Already at/over top-level limit (${initialTopLevel}/${maxTopLevel}). Only expanding depth.`);
+  }
+
+  let iterations = 0;
+  const maxIterations = 50;
+
+  while (iterations < maxIterations && !shouldStop()) {
+    // Count current comments FIRST before finding buttons
+    const currentTotal = source.countComments();
+    onProgress(currentTotal);
+
+    const topLevelCount = source.countTopLevel();
+
+    console.log(`   Iteration ${iterations + 1}: ${currentTotal}/${maxTotal} total, ${topLevelCount}/${maxTopLevel} top-level`);
+
+    // STOP if we've hit ANY limit
+    if (currentTotal >= maxTotal) {
+      console.log(`✅ Reached max total comments: ${maxTotal}`);
+      break;
+    }
+
+    const candidateButtons = source.findLoadMoreButtons();
+
+    // For non-depth strategies, only keep going if there are still depth buttons to click
+    if (topLevelCount >= maxTopLevel && strategy !== 'depth' && !candidateButtons.some(item => item.depth > 0)) {
+      console.log(`✅ Reached max top-level comments: ${maxTopLevel}`);
+      break;
+    }
+
+    const moreButtons = selectExpansionTargets(candidateButtons, strategy, {
+      targetDepth,
+      maxTopLevel,
+      topLevelCount
+    });
+
+    console.log(`   Found ${moreButtons.length} "More replies" buttons (after filtering)`);
+
+    if (moreButtons.length === 0) {
+      console.log(`✅ No more buttons to click`);
+      break;
+    }
+
+    const remainingBudget = maxTotal - currentTotal;
+    console.log(`   Remaining budget: ${remainingBudget} comments`);
+
+    const batchSize = strategy === 'breadth' ? 3 : 2;
+    const estimatedCommentsPerButton = 7;
+    const maxButtonsToClick = Math.max(1, Math.floor(remainingBudget / estimatedCommentsPerButton));
+    const buttonsToClick = moreButtons.slice(0, Math.min(moreButtons.length, maxButtonsToClick));
+
+    console.log(`   Clicking ${buttonsToClick.length} buttons`);
+
+    for (let i = 0; i < buttonsToClick.length; i += batchSize) {
+      if (shouldStop()) break;
+
+      const currentCount = source.countComments();
+      onProgress(currentCount);
+
+      if (currentCount >= maxTotal) {
+        console.log(`   Stopping: reached ${maxTotal} total comments`);
+        break;
+      }
+
+      const batch = buttonsToClick.slice(i, i + batchSize);
+      batch.forEach(item => {
+        console.log(`   Clicking "More replies" at depth ${item.depth}`);
+        item.button.click();
+      });
+
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+
+    await new Promise(resolve => setTimeout(resolve, 800));
+    iterations++;
+  }
+
+  if (shouldStop()) {
+    console.log(`⏹️  User stopped extraction at ${source.countComments()} comments`);
+  }
+
+  if (iterations >= maxIterations) {
+    console.warn('⚠️  Stopped after max iterations');
+  }
+
+  const finalCount = source.countComments();
+  onProgress(finalCount);
+  console.log(`📊 Final: ${finalCount} total comments, ${source.countTopLevel()} top-level`);
+
+  if (finalCount > maxTotal) {
+    console.log(`⚠️  Note: Loaded ${finalCount} comments (target was ${maxTotal}). Some were pre-loaded by Reddit.`);
+  }
+}
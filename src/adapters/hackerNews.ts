@@ -0,0 +1,144 @@
+// src/adapters/hackerNews.ts
+
+import { CommentData } from '../types';
+import { PageAdapter } from './pageAdapter';
+import { HACKER_NEWS_SITE } from './sites';
+import { collectAnchors, contentCommentId, parseTimestamp, processLinks } from '../utils/textFilters';
+
+/**
+ * Hacker News item pages (news.ycombinator.com/item?id=...)
+ * Comments are flat `tr.athing.comtr` rows; nesting comes from the indent cell.
+ */
+
+const COMMENT_SELECTOR = 'tr.athing.comtr';
+
+// Each indent level is a 40px spacer image on older markup
+const INDENT_WIDTH = 40;
+
+// Bodies HN shows in place of removed comments
+const REMOVED_MARKERS = ['[dead]', '[flagged]', '[deleted]'];
+
+function getDepth(row: Element): number {
+  const indentCell = row.querySelector('td.ind');
+  const indent = indentCell?.getAttribute('indent');
+  if (indent !== null && indent !== undefined) {
+    return parseInt(indent, 10) || 0;
+  }
+
+  const spacer = indentCell?.querySelector('img');
+  const width = parseInt(spacer?.getAttribute('width') || '0', 10);
+  return Math.round(width / INDENT_WIDTH);
+}
+
+/**
+ * Paragraph-aware text: HN separates paragraphs with <p> and no whitespace
+ */
+function readText(element: Element | null): string {
+  if (!element) return '';
+  const html = element as HTMLElement;
+  return (html.innerText || html.textContent || '').trim();
+}
+
+/**
+ * `.age` titles read "2024-05-01T10:11:12 1714558272": a UTC time without a zone, then epoch seconds
+ */
+function parseAge(title: string | null): number | null {
+  if (!title) return null;
+  const [iso, epoch] = title.split(' ');
+  const seconds = parseInt(epoch, 10);
+  if (!isNaN(seconds)) return seconds * 1000;
+  return parseTimestamp(iso ? `${iso}Z` : null);
+}
+
+export const hackerNewsAdapter: PageAdapter = {
+  site: HACKER_NEWS_SITE,
+  supportsJsonExtraction: false,
+  commentSelector: COMMENT_SELECTOR,
+
+  extractPost(linkMode) {
+    console.log('📰 Extracting post title and body...');
+
+    const title = processLinks(readText(document.querySelector('.fatitem .titleline > a')), linkMode).text;
+    const bodyElement = document.querySelector('.fatitem .toptext');
+    const body = processLinks(readText(bodyElement), linkMode, collectAnchors(bodyElement)).text;
+
+    const author = document.querySelector('.fatitem .hnuser')?.textContent?.trim() || null;
+
+    console.log('📰 Title:', title.substring(0, 100));
+    console.log('📰 Body:', body ? body.substring(0, 100) : '(none)');
+
+    return { title, body, author };
+  },
+
+  extractComments(linkMode) {
+    console.log('🔍 Starting comment extraction...');
+
+    const extractedComments: CommentData[] = [];
+    const rows = document.querySelectorAll(COMMENT_SELECTOR);
+    console.log(`📊 Found ${rows.length} .comtr rows`);
+
+    let filteredCount = 0;
+    const postAuthor = document.querySelector('.fatitem .hnuser')?.textContent?.trim() || null;
+
+    rows.forEach((element) => {
+      const row = element as HTMLElement;
+
+      const author = row.querySelector('.hnuser')?.textContent?.trim() || null;
+      const depth = getDepth(row);
+
+      const textElement = row.querySelector('.commtext');
+      const { text, links } = processLinks(readText(textElement), linkMode, collectAnchors(textElement));
+
+      if (!text || REMOVED_MARKERS.includes(text.toLowerCase())) {
+        filteredCount++;
+        return;
+      }
+
+      const id = row.id || contentCommentId(author, text, extractedComments);
+
+      extractedComments.push({
+        id,
+        text,
+        author,
+        depth,
+        permalink: row.id ? `item?id=${id}` : `#${id}`,
+        // HN only shows points on your own comments
+        score: null,
+        createdAt: parseAge(row.querySelector('.age')?.getAttribute('title') || null),
+        isOp: !!author && author === postAuthor,
+        links,
+        element: row
+      });
+    });
+
+    console.log(`🎉 Extraction complete! Total: ${extractedComments.length} (filtered out ${filteredCount} dead/flagged comments)`);
+    return extractedComments;
+  },
+
+  async expandComments(options) {
+    // Item pages render every comment at once; there is nothing to click
+    const count = document.querySelectorAll(COMMENT_SELECTOR).length;
+    options.onProgress(count);
+    console.log(`📊 Hacker News thread: ${count} comments already on the page`);
+  },
+
+  getHighlightTarget(item) {
+    if (item.type !== 'comment') {
+      return document.querySelector('.fatitem') as HTMLElement | null;
+    }
+    if (!item.id) return null;
+    // The comment cell, not the indent spacer
+    return document.querySelector(`tr.athing.comtr[id="${item.id}"] td.default`) as HTMLElement | null;
+  },
+
+  getTextElement(item) {
+    if (item.type === 'title') {
+      return document.querySelector('.fatitem .titleline > a') as HTMLElement | null;
+    }
+    if (item.type === 'body') {
+      return document.querySelector('.fatitem .toptext') as HTMLElement | null;
+    }
+    const cell = this.getHighlightTarget(item);
+    return cell?.querySelector('.commtext') as HTMLElement | null;
+  }
+};
@@ -0,0 +1,38 @@
+// src/adapters/index.ts
+
+import { PageAdapter } from './pageAdapter';
+import { PageLocation } from './sites';
+import { shredditAdapter } from './shreddit';
+import { oldRedditAdapter } from './oldReddit';
+import { hackerNewsAdapter } from './hackerNews';
+
+export type { PageAdapter, PostContent, ExpansionOptions } from './pageAdapter';
+
+/**
+ * Site adapter registry. Everything after extraction is site-agnostic,
+ * so supporting a new discussion site means registering one adapter here
+ * (plus its SiteInfo and manifest match pattern).
+ */
+const registry: PageAdapter[] = [];
+
+export function registerPageAdapter(adapter: PageAdapter) {
+  if (registry.some(existing => existing.site.id === adapter.site.id)) {
+    throw new Error(`A page adapter for "${adapter.site.id}" is already registered`);
+  }
+  registry.push(adapter);
+}
+
+export function getRegisteredAdapters(): PageAdapter[] {
+  return registry.slice();
+}
+
+/**
+ * Pick the adapter for the current page (falls back to new Reddit)
+ */
+export function getPageAdapter(location: PageLocation): PageAdapter {
+  return registry.find(adapter => adapter.site.matches(location)) || shredditAdapter;
+}
+
+registerPageAdapter(shredditAdapter);
+registerPageAdapter(oldRedditAdapter);
+registerPageAdapter(hackerNewsAdapter);
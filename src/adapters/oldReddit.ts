@@ -0,0 +1,149 @@
+// src/adapters/oldReddit.ts
+
+import { CommentData } from '../types';
+import { PageAdapter } from './pageAdapter';
+import { ClickExpansionSource, LoadMoreButton, expandByClicking } from './clickExpansion';
+import { OLD_REDDIT_SITE } from './sites';
+import { collectAnchors, contentCommentId, parseScore, parseTimestamp, processLinks } from '../utils/textFilters';
+
+/**
+ * Old Reddit (old.reddit.com) - server-rendered `.thing` listings
+ */
+
+const COMMENT_SELECTOR = '.commentarea .thing.comment';
+const TOP_LEVEL_SELECTOR = '.commentarea > .sitetable > .thing.comment';
+
+/**
+ * Nesting depth of an element, counted in ancestor comments (0 = top-level)
+ */
+function getDepth(element: Element): number {
+  let depth = 0;
+  let parent = element.parentElement;
+  while (parent && !parent.classList.contains('commentarea')) {
+    if (parent.classList.contains('thing') && parent.classList.contains('comment')) {
+      depth++;
+    }
+    parent = parent.parentElement;
+  }
+  return depth;
+}
+
+function findLoadMoreButtons(): LoadMoreButton[] {
+  return Array.from(document.querySelectorAll('.commentarea .thing.morechildren a'))
+    .filter(link => {
+      // Clicked links turn into "loading..." until the replies arrive
+      const text = link.textContent?.toLowerCase() || '';
+      return text.includes('load more comments');
+    })
+    .map(link => ({
+      button: link as HTMLElement,
+      depth: getDepth(link)
+    }));
+}
+
+const expansionSource: ClickExpansionSource = {
+  countComments: () => document.querySelectorAll(COMMENT_SELECTOR).length,
+  countTopLevel: () => document.querySelectorAll(TOP_LEVEL_SELECTOR).length,
+  findLoadMoreButtons
+};
+
+function getPostElement(): HTMLElement | null {
+  return document.querySelector('#siteTable > .thing.link') as HTMLElement | null;
+}
+
+export const oldRedditAdapter: PageAdapter = {
+  site: OLD_REDDIT_SITE,
+  supportsJsonExtraction: true,
+  commentSelector: COMMENT_SELECTOR,
+
+  extractPost(linkMode) {
+    console.log('📰 Extracting post title and body...');
+
+    const post = getPostElement();
+    const title = processLinks(post?.querySelector('a.title')?.textContent?.trim() || '', linkMode).text;
+    const bodyElement = post?.querySelector('.expando .usertext-body .md') || null;
+    const body = processLinks(bodyElement?.textContent?.trim() || '', linkMode, collectAnchors(bodyElement)).text;
+
+    const author = post?.getAttribute('data-author') || null;
+
+    console.log('📰 Title:', title.substring(0, 100));
+    console.log('📰 Body:', body ? body.substring(0, 100) : '(none)');
+
+    return { title, body, author };
+  },
+
+  extractComments(linkMode) {
+    console.log('🔍 Starting comment extraction...');
+
+    const extractedComments: CommentData[] = [];
+    const commentElements = document.querySelectorAll(COMMENT_SELECTOR);
+    console.log(`📊 Found ${commentElements.length} .thing.comment elements`);
+
+
+    commentElements.forEach((element) => {
+      const commentEl = element as HTMLElement;
+
+      // Deleted comments have no body worth reading
+      if (commentEl.classList.contains('deleted')) {
+        return;
+      }
+
+      const author = commentEl.getAttribute('data-author') || null;
+      const depth = getDepth(commentEl);
+
+      const body = commentEl.querySelector(':scope > .entry .usertext-body .md');
+      const { text, links } = processLinks(body?.textContent?.trim() || '', linkMode, collectAnchors(body));
+
+      if (!text) {
+        return;
+      }
+
+      const fullname = commentEl.getAttribute('data-fullname') || '';
+      const permalinkAttr = commentEl.getAttribute('data-permalink') || '';
+      const id = fullname || permalinkAttr || contentCommentId(author, text, extractedComments);
+      const permalink = permalinkAttr || `#${id}`;
+
+      const entry = commentEl.querySelector(':scope > .entry');
+
+      extractedComments.push({
+        id,
+        text,
+        author,
+        depth,
+        permalink,
+        // The visible score reads "5 points"; the title holds the bare number
+        score: parseScore(entry?.querySelector('.score.unvoted')?.getAttribute('title') || null),
+        createdAt: parseTimestamp(entry?.querySelector('.tagline time')?.getAttribute('datetime') || null),
+        isOp: !!entry?.querySelector('.tagline a.author.submitter'),
+        links,
+        element: commentEl
+      });
+    });
+
+    console.log(`🎉 Extraction complete! Total: ${extractedComments.length}`);
+    return extractedComments;
+  },
+
+  expandComments: (options) => expandByClicking(expansionSource, options),
+
+  getHighlightTarget(item) {
+    if (item.type !== 'comment') {
+      return getPostElement();
+    }
+    if (!item.id) return null;
+    // Highlight only the comment's own entry, not its whole reply tree
+    return document.querySelector(`.thing.comment[data-fullname="${item.id}"] > .entry`) as HTMLElement | null;
+  },
+
+  getTextElement(item) {
+    const post = getPostElement();
+    if (item.type === 'title') {
+      return post?.querySelector('a.title') as HTMLElement | null;
+    }
+    if (item.type === 'body') {
+      return post?.querySelector('.expando .usertext-body .md') as HTMLElement | null;
+    }
+    const entry = this.getHighlightTarget(item);
+    return entry?.querySelector('.usertext-body .md') as HTMLElement | null;
+  }
+};
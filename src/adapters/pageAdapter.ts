@@ -0,0 +1,60 @@
+// src/adapters/pageAdapter.ts
+
+import { CommentData, ContentItem, ExpansionStrategy, LinkMode } from '../types';
+import { SiteInfo } from './sites';
+
+/**
+ * A page adapter knows how to read one flavour of discussion page.
+ * The content script picks one per page; everything after extraction
+ * (queue, playback, popup) is the same for every adapter.
+ */
+
+export interface PostContent {
+  title: string;
+  body: string;
+  author: string | null; // OP
+}
+
+export interface ExpansionOptions {
+  targetDepth: number;
+  maxTopLevel: number;
+  maxTotal: number;
+  strategy: ExpansionStrategy;
+  shouldStop: () => boolean;
+  onProgress: (commentCount: number) => void;
+}
+
+export interface PageAdapter {
+  site: SiteInfo;
+
+  /**
+   * Whether the thread can also be read from Reddit's `.json` endpoints
+   */
+  supportsJsonExtraction: boolean;
+
+  /**
+   * Matches every comment element, so comments the page loads later can be noticed
+   */
+  commentSelector: string;
+
+  /**
+   * Read the post and comments, speaking links as `linkMode` says
+   */
+  extractPost(linkMode: LinkMode): PostContent;
+  extractComments(linkMode: LinkMode): CommentData[];
+
+  /**
+   * Load collapsed/hidden comments until the limits are reached
+   */
+  expandComments(options: ExpansionOptions): Promise<void>;
+
+  /**
+   * Element to highlight and scroll to while an item is being read
+   */
+  getHighlightTarget(item: ContentItem): HTMLElement | null;
+
+  /**
+   * Element holding the rendered text of an item, for word-by-word highlighting
+   */
+  getTextElement(item: ContentItem): HTMLElement | null;
+}
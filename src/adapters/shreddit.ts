@@ -0,0 +1,154 @@
+// src/adapters/shreddit.ts
+
+import { CommentData } from '../types';
+import { PageAdapter } from './pageAdapter';
+import { ClickExpansionSource, LoadMoreButton, expandByClicking } from './clickExpansion';
+import { REDDIT_SITE } from './sites';
+import { collectAnchors, contentCommentId, parseScore, parseTimestamp, processLinks } from '../utils/textFilters';
+
+/**
+ * New Reddit (www.reddit.com) built from shreddit-* web components
+ */
+
+function findLoadMoreButtons(): LoadMoreButton[] {
+  return Array.from(document.querySelectorAll('faceplate-partial'))
+    .map(partial => {
+      const button = partial.querySelector('button');
+      if (!button) return null;
+
+      const text = button.textContent?.toLowerCase() || '';
+      if (!text.includes('more replies') && !text.includes('more comment')) {
+        return null;
+      }
+
+      let depth = 0;
+      let parent = partial.parentElement;
+      while (parent) {
+        if (parent.tagName.toLowerCase() === 'shreddit-comment') {
+          const commentDepth = parseInt(parent.getAttribute('depth') || '0', 10);
+          depth = commentDepth + 1;
+          break;
+        }
+        parent = parent.parentElement;
+      }
+
+      return { button: button as HTMLElement, depth };
+    })
+    .filter((item): item is LoadMoreButton => item !== null);
+}
+
+/**
+ * The comment's own "posted" time; replies nested inside carry their own <faceplate-timeago>
+ */
+function getOwnTimestamp(commentEl: HTMLElement): string | null {
+  const timeago = Array.from(commentEl.querySelectorAll('faceplate-timeago'))
+    .find(el => el.closest('shreddit-comment') === commentEl);
+  return timeago?.getAttribute('ts') || commentEl.getAttribute('created') || null;
+}
+
+const COMMENT_SELECTOR = 'shreddit-comment';
+
+const expansionSource: ClickExpansionSource = {
+  countComments: () => document.querySelectorAll(COMMENT_SELECTOR).length,
+  countTopLevel: () => document.querySelectorAll('shreddit-comment[depth="0"]').length,
+  findLoadMoreButtons
+};
+
+export const shredditAdapter: PageAdapter = {
+  site: REDDIT_SITE,
+  supportsJsonExtraction: true,
+  commentSelector: COMMENT_SELECTOR,
+
+  extractPost(linkMode) {
+    console.log('📰 Extracting post title and body...');
+
+    const titleElement = document.querySelector('shreddit-post h1') ||
+                         document.querySelector('[slot="title"]') ||
+                         document.querySelector('h1');
+    let title = titleElement?.textContent?.trim() || '';
+    title = processLinks(title, linkMode).text;
+
+    const bodyElement = document.querySelector('shreddit-post div[slot="text-body"]') ||
+                        document.querySelector('[data-click-id="text"]') ||
+                        document.querySelector('div[data-test-id="post-content"]');
+    let body = bodyElement?.textContent?.trim() || '';
+    body = processLinks(body, linkMode, collectAnchors(bodyElement)).text;
+
+    const author = document.querySelector('shreddit-post')?.getAttribute('author') || null;
+
+    console.log('📰 Title:', title.substring(0, 100));
+    console.log('📰 Body:', body ? body.substring(0, 100) : '(none)');
+
+    return { title, body, author };
+  },
+
+  extractComments(linkMode) {
+    console.log('🔍 Starting comment extraction...');
+
+    const extractedComments: CommentData[] = [];
+    const commentElements = document.querySelectorAll(COMMENT_SELECTOR);
+    console.log(`📊 Found ${commentElements.length} shreddit-comment elements`);
+
+    const postAuthor = document.querySelector('shreddit-post')?.getAttribute('author') || null;
+
+    commentElements.forEach((element) => {
+      const commentEl = element as HTMLElement;
+
+      const author = commentEl.getAttribute('author') || null;
+      const depth = parseInt(commentEl.getAttribute('depth') || '0', 10);
+
+      const contentDiv = commentEl.querySelector('[id$="-comment-rtjson-content"]');
+      const { text, links } = processLinks(
+        contentDiv?.textContent?.trim() || '',
+        linkMode,
+        collectAnchors(contentDiv)
+      );
+
+      if (!text) {
+        return;
+      }
+
+      const thingId = commentEl.getAttribute('thingid') || '';
+      const permalinkAttr = commentEl.getAttribute('permalink') || '';
+      const id = thingId || permalinkAttr || contentCommentId(author, text, extractedComments);
+      const permalink = permalinkAttr || `#${id}`;
+
+      extractedComments.push({
+        id,
+        text,
+        author,
+        depth,
+        permalink,
+        score: parseScore(commentEl.getAttribute('score')),
+        createdAt: parseTimestamp(getOwnTimestamp(commentEl)),
+        isOp: !!author && author === postAuthor,
+        links,
+        element: commentEl
+      });
+    });
+
+    console.log(`🎉 Extraction complete! Total: ${extractedComments.length}`);
+    return extractedComments;
+  },
+
+  expandComments: (options) => expandByClicking(expansionSource, options),
+
+  getHighlightTarget(item) {
+    if (item.type !== 'comment') {
+      return document.querySelector('shreddit-post') as HTMLElement | null;
+    }
+    if (!item.id) return null;
+    return document.querySelector(`shreddit-comment[thingid="${item.id}"]`) as HTMLElement | null;
+  },
+
+  getTextElement(item) {
+    if (item.type === 'title') {
+      return document.querySelector('shreddit-post h1') as HTMLElement | null;
+    }
+    if (item.type === 'body') {
+      return document.querySelector('shreddit-post div[slot="text-body"]') as HTMLElement | null;
+    }
+    const comment = this.getHighlightTarget(item);
+    return comment?.querySelector('[id$="-comment-rtjson-content"]') as HTMLElement | null;
+  }
+};
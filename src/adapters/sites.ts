@@ -0,0 +1,90 @@
+// src/adapters/sites.ts
+
+/**
+ * Supported discussion sites, kept free of DOM code so the popup and
+ * background worker can check URLs without pulling in the page adapters.
+ * Keep `manifest.json` content script matches in sync with these.
+ */
+
+export type SiteId = 'reddit' | 'old-reddit' | 'hacker-news';
+
+/**
+ * The parts of a URL the site matchers look at (satisfied by both URL and Location)
+ */
+export interface PageLocation {
+  hostname: string;
+  pathname: string;
+  search: string;
+}
+
+export interface SiteInfo {
+  id: SiteId;
+  label: string;
+  matches(location: PageLocation): boolean;
+  /** Canonical thread address, used as the key for per-thread data */
+  threadPermalink(location: PageLocation): string;
+  /** Where the thread was posted, shown in the OS now-playing panel (e.g. "r/AskReddit") */
+  community(location: PageLocation): string;
+}
+
+const REDDIT_THREAD_PATH = /^\/r\/[^/]+\/comments\//;
+
+/**
+ * New and old Reddit share a permalink so a thread resumes on either site.
+ * Drops the title slug and any comment-focus suffix.
+ */
+function redditPermalink(location: PageLocation): string {
+  const match = location.pathname.match(/^\/r\/[^/]+\/comments\/[^/]+/);
+  return `reddit.com${(match ? match[0] : location.pathname).toLowerCase()}`;
+}
+
+function subreddit(location: PageLocation): string {
+  const name = location.pathname.match(/^\/r\/([^/]+)/)?.[1];
+  return name ? `r/${name}` : 'Reddit';
+}
+
+export const REDDIT_SITE: SiteInfo = {
+  id: 'reddit',
+  label: 'Reddit',
+  matches: (location) => location.hostname === 'www.reddit.com' && REDDIT_THREAD_PATH.test(location.pathname),
+  threadPermalink: redditPermalink,
+  community: subreddit
+};
+
+export const OLD_REDDIT_SITE: SiteInfo = {
+  id: 'old-reddit',
+  label: 'Old Reddit',
+  matches: (location) => location.hostname === 'old.reddit.com' && REDDIT_THREAD_PATH.test(location.pathname),
+  threadPermalink: redditPermalink,
+  community: subreddit
+};
+
+export const HACKER_NEWS_SITE: SiteInfo = {
+  id: 'hacker-news',
+  label: 'Hacker News',
+  matches: (location) =>
+    location.hostname === 'news.ycombinator.com' &&
+    location.pathname === '/item' &&
+    /[?&]id=\d+/.test(location.search),
+  threadPermalink: (location) => {
+    const id = location.search.match(/[?&]id=(\d+)/)?.[1] || '';
+    return `news.ycombinator.com/item?id=${id}`;
+  },
+  community: () => 'Hacker News'
+};
+
+export const SITES: SiteInfo[] = [REDDIT_SITE, OLD_REDDIT_SITE, HACKER_NEWS_SITE];
+
+/**
+ * Find the site a URL belongs to, or null if it isn't a supported thread page
+ */
+export function findSite(url: string | undefined): SiteInfo | null {
+  if (!url) return null;
+
+  try {
+    const location = new URL(url);
+    return SITES.find(site => site.matches(location)) || null;
+  } catch {
+    return null;
+  }
+}
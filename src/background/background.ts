@@ -1,5 +1,35 @@
 // src/background/background.ts
 
+import {
+  BACKGROUND_REQUEST_SCHEMA,
+  BackgroundRequestMap,
+  BackgroundResponseMap,
+  createRequest,
+  listen,
+  sendToOffscreen
+} from '../messaging/protocol';
+import { directChromeTts } from '../playback/backends';
+import { handleCommand } from './commands';
+import {
+  ENGINE_SETTING_KEYS,
+  control,
+  dismissResume,
+  extendSession,
+  getScript,
+  getSessionItems,
+  getSessionState,
+  loadSession,
+  onEngineAudioExport,
+  onEngineChunkStart,
+  onEngineClearHighlight,
+  onEngineFinished,
+  onEngineHighlight,
+  onEngineHighlightWord,
+  onTabRemoved,
+  resume,
+  updateEngineSettings
+} from './playbackSession';
+
 console.log('🎬 Reddit Conversation Reader - Background Service Worker Started');
 
 // Listen for tab updates (navigation, reload)
@@ -8,8 +38,8 @@ chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
   if (changeInfo.status === 'loading') {
     console.log(`🔄 Tab ${tabId} is loading:`, tab.url);
 
-    // Send cleanup message to content script (if it exists)
-    chrome.tabs.sendMessage(tabId, { action: 'cleanup' }).catch(() => {
+    // Clear the old page's highlight - playback itself lives in the offscreen document
+    chrome.tabs.sendMessage(tabId, createRequest({ action: 'cleanup' })).catch(() => {
       // Content script might not be loaded yet, ignore error
     });
   }
@@ -18,7 +48,19 @@ chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
 // Listen for tab removal (tab closed)
 chrome.tabs.onRemoved.addListener((tabId) => {
   console.log(`🗑️ Tab ${tabId} closed`);
-  // Cleanup happens automatically when tab closes
+  onTabRemoved(tabId);
+});
+
+// Announcement templates are edited in the popup while a thread may be playing
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === 'sync' && ENGINE_SETTING_KEYS.some(key => changes[key])) {
+    updateEngineSettings().catch(error => console.error('Failed to update engine settings:', error));
+  }
+});
+
+// Keyboard shortcuts (manifest `commands`)
+chrome.commands.onCommand.addListener((command) => {
+  handleCommand(command);
 });
 
 // Handle extension installation/update
@@ -37,13 +79,169 @@ chrome.runtime.onStartup.addListener(() => {
   console.log('🔌 Browser started, service worker active');
 });
 
-// Keep service worker alive (optional, for debugging)
-chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
-  console.log('📨 Background received message:', request);
-
-  if (request.action === 'ping') {
-    sendResponse({ status: 'alive' });
+function requireSession<T>(result: T | null): T {
+  if (!result) {
+    throw new Error('Nothing is loaded for playback yet');
   }
+  return result;
+}
+
+listen<BackgroundRequestMap, BackgroundResponseMap>(BACKGROUND_REQUEST_SCHEMA, {
+  // Keep service worker alive (optional, for debugging)
+  ping: () => ({ status: 'alive' }),
+
+  loadSession: (request, sender) => loadSession(sender.tab?.id ?? null, request),
+
+  extendSession: async (request) => {
+    await extendSession(request);
+    return {};
+  },
+
+  getSession: async () => ({ session: await getSessionState() }),
+
+  play: async () => {
+    const state = requireSession(await control({ action: 'play' }));
+    return { isPlaying: state.isPlaying };
+  },
+
+  pause: async () => {
+    const state = requireSession(await control({ action: 'pause' }));
+    return { isPaused: state.isPaused };
+  },
+
+  stop: async () => {
+    await control({ action: 'stop' });
+    return {};
+  },
+
+  next: async () => {
+    const state = requireSession(await control({ action: 'next' }));
+    return { currentIndex: state.currentIndex };
+  },
+
+  previous: async () => {
+    const state = requireSession(await control({ action: 'previous' }));
+    return { currentIndex: state.currentIndex };
+  },
+
+  nextThread: async () => {
+    const state = requireSession(await control({ action: 'nextThread' }));
+    return { currentIndex: state.currentIndex };
+  },
+
+  skipReplies: async () => {
+    const state = requireSession(await control({ action: 'skipReplies' }));
+    return { currentIndex: state.currentIndex };
+  },
+
+  parent: async () => {
+    const state = requireSession(await control({ action: 'parent' }));
+    return { currentIndex: state.currentIndex };
+  },
+
+  restartThread: async () => {
+    const state = requireSession(await control({ action: 'restartThread' }));
+    return { currentIndex: state.currentIndex };
+  },
+
+  nextSentence: async () => {
+    const { currentIndex, currentChunk } = requireSession(await control({ action: 'nextSentence' }));
+    return { currentIndex, currentChunk };
+  },
 
-  return true;
-});
\ No newline at end of file
+  previousSentence: async () => {
+    const { currentIndex, currentChunk } = requireSession(await control({ action: 'previousSentence' }));
+    return { currentIndex, currentChunk };
+  },
+
+  seek: async (request) => {
+    const state = requireSession(await control({ action: 'seek', index: request.index }));
+    return { currentIndex: state.currentIndex };
+  },
+
+  resume: async () => {
+    const { currentIndex, currentChunk } = requireSession(await resume());
+    return { currentIndex, currentChunk };
+  },
+
+  dismissResume: async () => {
+    await dismissResume();
+    return {};
+  },
+
+  setSpeed: async (request) => {
+    await control({ action: 'setSpeed', speed: request.speed });
+    return {};
+  },
+
+  toggleUniqueVoices: async (request) => {
+    const state = requireSession(await control({ action: 'setUniqueVoices', enabled: request.enabled }));
+    return { enabled: state.useUniqueVoices };
+  },
+
+  setVoiceLocale: async (request) => {
+    const state = requireSession(await control({ action: 'setVoiceLocale', locale: request.locale }));
+    return { voiceLocale: state.voiceLocale };
+  },
+
+  exportAudio: async (request) => {
+    requireSession(await control({ action: 'startAudioExport', format: request.format }));
+    return {};
+  },
+
+  cancelAudioExport: async () => {
+    requireSession(await control({ action: 'cancelAudioExport' }));
+    return {};
+  },
+
+  getScript: async () => requireSession(await getScript()),
+
+  getItems: async () => ({ items: requireSession(await getSessionItems()) }),
+
+  engineHighlight: async (request) => {
+    await onEngineHighlight(request.index);
+    return {};
+  },
+
+  engineHighlightWord: async (request) => {
+    await onEngineHighlightWord(request.index, request.boundary);
+    return {};
+  },
+
+  engineClearHighlight: async () => {
+    await onEngineClearHighlight();
+    return {};
+  },
+
+  engineChunkStart: async (request) => {
+    await onEngineChunkStart(request.index, request.chunk);
+    return {};
+  },
+
+  engineFinished: async () => {
+    await onEngineFinished();
+    return {};
+  },
+
+  engineAudioExport: async (request) => {
+    await onEngineAudioExport(request.progress, request.url);
+    return {};
+  },
+
+  ttsGetVoices: async () => ({ voices: await directChromeTts.getVoices() }),
+
+  ttsSpeak: (request) => {
+    const { id, text, voiceName, lang, rate } = request;
+    directChromeTts.speak(text, { voiceName, lang, rate }, (event) => {
+      sendToOffscreen({ action: 'ttsEvent', id, ...event }).catch(error => {
+        console.error('Failed to forward speech event:', error);
+      });
+    });
+    return {};
+  },
+
+  ttsStop: () => {
+    directChromeTts.stop();
+    return {};
+  }
+}, 'background');
@@ -0,0 +1,66 @@
+// src/background/commands.ts
+
+import { control } from './playbackSession';
+
+/**
+ * Keyboard shortcuts declared under `commands` in manifest.json.
+ * Users rebind them at chrome://extensions/shortcuts; they drive the playback
+ * session directly, so they work from any tab.
+ */
+
+export type CommandName =
+  | 'toggle-playback'
+  | 'next-item'
+  | 'previous-item'
+  | 'skip-thread'
+  | 'skip-replies'
+  | 'parent-comment'
+  | 'restart-thread'
+  | 'speed-up'
+  | 'speed-down';
+
+const SPEED_STEP = 0.1;
+
+async function changeSpeed(delta: number) {
+  const state = await control({ action: 'getState' });
+  if (!state) return;
+
+  // Round away float drift so repeated presses land on 1.1, 1.2, ...
+  const speed = Math.round((state.speed + delta) * 10) / 10;
+  await control({ action: 'setSpeed', speed });
+}
+
+const COMMAND_HANDLERS: Record<CommandName, () => Promise<unknown>> = {
+  'toggle-playback': async () => {
+    const state = await control({ action: 'getState' });
+    if (!state) return;
+    await control({ action: state.isPlaying ? 'pause' : 'play' });
+  },
+  'next-item': () => control({ action: 'next' }),
+  'previous-item': () => control({ action: 'previous' }),
+  'skip-thread': () => control({ action: 'nextThread' }),
+  'skip-replies': () => control({ action: 'skipReplies' }),
+  'parent-comment': () => control({ action: 'parent' }),
+  'restart-thread': () => control({ action: 'restartThread' }),
+  'speed-up': () => changeSpeed(SPEED_STEP),
+  'speed-down': () => changeSpeed(-SPEED_STEP)
+};
+
+function isCommandName(command: string): command is CommandName {
+  return Object.prototype.hasOwnProperty.call(COMMAND_HANDLERS, command);
+}
+
+export async function handleCommand(command: string) {
+  console.log(`⌨️ Command: ${command}`);
+
+  if (!isCommandName(command)) {
+    console.warn(`⚠️ Unknown command: ${command}`);
+    return;
+  }
+
+  try {
+    await COMMAND_HANDLERS[command]();
+  } catch (error) {
+    console.error(`❌ Error handling command "${command}":`, error);
+  }
+}
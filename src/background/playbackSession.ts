@@ -0,0 +1,485 @@
+// src/background/playbackSession.ts
+
+import { ContentItem } from '../types';
+import { ItemScript, PlaybackState, WordBoundary, getItemKey, mergeKeepingCurrent } from '../playback/playback';
+import {
+  BackgroundRequestMap,
+  ContentAction,
+  ContentRequestMap,
+  OffscreenAction,
+  OffscreenRequestMap,
+  ResumePoint,
+  SessionState,
+  sendToOffscreen,
+  sendToTab
+} from '../messaging/protocol';
+import { clearThreadPosition, loadThreadPosition, saveThreadPosition } from './threadPositions';
+import { AnnouncementSettings, DEFAULT_ANNOUNCEMENTS } from '../playback/announcements';
+import { DEFAULT_NORMALIZATION, NormalizationSettings } from '../playback/normalization';
+import { DEFAULT_LANGUAGE_SETTINGS, LanguageSettings } from '../playback/languageDetection';
+import { DEFAULT_TTS_SETTINGS, TtsSettings } from '../playback/backends';
+import { AudioExportProgress } from '../export/audioExport';
+import { exportFileName } from '../export/fileName';
+import { VoicePins } from '../playback/voiceAssignment';
+
+/**
+ * The playback session owned by the service worker.
+ * Speech runs in an offscreen document so it survives tab navigation and tab close;
+ * the tab that extracted the thread only receives highlight instructions.
+ * The session is mirrored to chrome.storage.session because the worker can be
+ * stopped between events, and Chrome may close an idle offscreen document.
+ */
+
+const OFFSCREEN_URL = 'offscreen.html';
+const SESSION_KEY = 'playbackSession';
+
+interface PlaybackSession {
+  tabId: number | null;
+  permalink: string;
+  title: string;
+  community: string;
+  items: ContentItem[];
+  selectedVoices: string[];
+  voiceLocale: string;
+  speed: number;
+  useUniqueVoices: boolean;
+  position: { index: number; chunk: number };
+  resumePoint: ResumePoint | null;
+  audioExport?: AudioExportProgress | null;
+}
+
+// undefined until read back from storage after a worker restart
+let session: PlaybackSession | null | undefined;
+let creatingOffscreen: Promise<void> | null = null;
+
+async function getSession(): Promise<PlaybackSession | null> {
+  if (session === undefined) {
+    const stored = await chrome.storage.session.get(SESSION_KEY);
+    session = (stored[SESSION_KEY] as PlaybackSession | undefined) || null;
+  }
+  return session;
+}
+
+async function saveSession() {
+  await chrome.storage.session.set({ [SESSION_KEY]: session || null });
+}
+
+/**
+ * Create the offscreen document if it isn't running. Returns true when it was just created.
+ */
+async function ensureOffscreenDocument(): Promise<boolean> {
+  if (await chrome.offscreen.hasDocument()) return false;
+
+  if (!creatingOffscreen) {
+    creatingOffscreen = chrome.offscreen.createDocument({
+      url: OFFSCREEN_URL,
+      // BLOBS too: with audio playback alone Chrome closes the document after 30s of
+      // silence, which would kill a long audio export
+      reasons: [chrome.offscreen.Reason.AUDIO_PLAYBACK, chrome.offscreen.Reason.BLOBS],
+      justification: 'Reads Reddit threads aloud with text-to-speech and builds audio exports'
+    });
+  }
+
+  try {
+    await creatingOffscreen;
+  } finally {
+    creatingOffscreen = null;
+  }
+  return true;
+}
+
+/**
+ * Engine settings edited in the popup and stored with the other settings in sync storage.
+ * They are pushed to the engine whenever it starts and whenever one of them changes.
+ */
+export const ENGINE_SETTING_KEYS = ['announcements', 'normalization', 'voicePins', 'languages', 'tts'] as const;
+
+async function pushEngineSettings() {
+  const items = await chrome.storage.sync.get({
+    announcements: DEFAULT_ANNOUNCEMENTS,
+    normalization: DEFAULT_NORMALIZATION,
+    voicePins: {},
+    languages: DEFAULT_LANGUAGE_SETTINGS,
+    tts: DEFAULT_TTS_SETTINGS
+  });
+
+  await sendToOffscreen({
+    action: 'setAnnouncements',
+    announcements: { ...DEFAULT_ANNOUNCEMENTS, ...(items.announcements as Partial<AnnouncementSettings>) }
+  });
+  await sendToOffscreen({
+    action: 'setNormalization',
+    normalization: { ...DEFAULT_NORMALIZATION, ...(items.normalization as Partial<NormalizationSettings>) }
+  });
+  await sendToOffscreen({ action: 'setVoicePins', pins: items.voicePins as VoicePins });
+  await sendToOffscreen({
+    action: 'setLanguageSettings',
+    languages: { ...DEFAULT_LANGUAGE_SETTINGS, ...(items.languages as Partial<LanguageSettings>) }
+  });
+  await sendToOffscreen({
+    action: 'setTtsBackend',
+    tts: { ...DEFAULT_TTS_SETTINGS, ...(items.tts as Partial<TtsSettings>) }
+  });
+}
+
+/**
+ * Push changed engine settings to a running engine
+ */
+export async function updateEngineSettings() {
+  if (!(await chrome.offscreen.hasDocument())) return;
+  await pushEngineSettings();
+}
+
+/**
+ * Make sure the engine is running and has the session loaded, restoring the
+ * last position if the offscreen document had to be recreated
+ */
+async function ensureEngine(current: PlaybackSession) {
+  const created = await ensureOffscreenDocument();
+  if (!created) return;
+
+  console.log('🔁 Offscreen document recreated, restoring session');
+  await sendToOffscreen({
+    action: 'load',
+    items: current.items,
+    title: current.title,
+    community: current.community,
+    selectedVoices: current.selectedVoices,
+    voiceLocale: current.voiceLocale
+  });
+  await sendToOffscreen({ action: 'setSpeed', speed: current.speed });
+  await sendToOffscreen({ action: 'setUniqueVoices', enabled: current.useUniqueVoices });
+  await pushEngineSettings();
+  await sendToOffscreen({ action: 'setPosition', index: current.position.index, chunk: current.position.chunk });
+}
+
+/**
+ * Forward a playback command to the engine. Returns null when no thread is loaded.
+ */
+export async function control<A extends OffscreenAction>(
+  request: { action: A } & OffscreenRequestMap[A]
+): Promise<PlaybackState | null> {
+  const current = await getSession();
+  if (!current) return null;
+
+  await ensureEngine(current);
+  const state = await sendToOffscreen(request);
+
+  if (request.action === 'setSpeed' || request.action === 'setUniqueVoices') {
+    current.speed = state.speed;
+    current.useUniqueVoices = state.useUniqueVoices;
+    await saveSession();
+  } else if (request.action === 'setVoiceLocale') {
+    current.voiceLocale = state.voiceLocale;
+    await saveSession();
+  }
+
+  return state;
+}
+
+/**
+ * The items in the order the engine reads them. Doesn't wake a closed offscreen document.
+ */
+export async function getSessionItems(): Promise<ContentItem[] | null> {
+  const current = await getSession();
+  return current ? current.items : null;
+}
+
+/**
+ * How the engine reads each item of the thread. Returns null when no thread is loaded.
+ */
+export async function getScript(): Promise<{ script: ItemScript[]; voiceLocale: string } | null> {
+  const current = await getSession();
+  if (!current) return null;
+
+  await ensureEngine(current);
+  const { script, voiceLocale } = await sendToOffscreen({ action: 'getScript' });
+  return { script, voiceLocale };
+}
+
+// Items just before the current one remembered with a position
+const SAVED_PREDECESSORS = 5;
+
+/**
+ * Keys of the items above an item in the thread and just before it, nearest first
+ */
+function treeContext(items: ContentItem[], index: number): { ancestorKeys: string[]; previousKeys: string[] } {
+  const ancestorKeys: string[] = [];
+  let depth = items[index].depth ?? 0;
+  for (let i = index - 1; i >= 0 && depth > 0; i--) {
+    const itemDepth = items[i].depth ?? 0;
+    if (items[i].type === 'comment' && itemDepth < depth) {
+      ancestorKeys.push(getItemKey(items[i]));
+      depth = itemDepth;
+    }
+  }
+
+  const previousKeys = items.slice(Math.max(0, index - SAVED_PREDECESSORS), index).map(getItemKey).reverse();
+  return { ancestorKeys, previousKeys };
+}
+
+/**
+ * Match the saved position against the freshly extracted items. When the comment
+ * has disappeared, resume at the closest item before it that is still there -
+ * its nearest predecessor, else its nearest ancestor - and only fall back to the
+ * saved index when none of them are left.
+ */
+async function findResumePoint(permalink: string, items: ContentItem[]): Promise<ResumePoint | null> {
+  if (!permalink || items.length === 0) return null;
+
+  const position = await loadThreadPosition(permalink);
+  if (!position) return null;
+
+  const indexByKey = new Map(items.map((item, i) => [getItemKey(item), i]));
+  let index = indexByKey.get(position.itemKey) ?? -1;
+  const exact = index >= 0;
+  if (!exact) {
+    const neighbours = [...(position.previousKeys || []), ...(position.ancestorKeys || [])];
+    const survivor = neighbours.find(key => indexByKey.has(key));
+    index = survivor !== undefined
+      ? indexByKey.get(survivor)!
+      : Math.min(Math.max(position.index, 0), items.length - 1);
+  }
+
+  const chunk = exact ? position.chunk : 0;
+  if (index === 0 && chunk === 0) return null;
+
+  const item = items[index];
+  return {
+    index,
+    chunk,
+    type: item.type,
+    author: item.author || null,
+    exact
+  };
+}
+
+/**
+ * Replace the session with a freshly extracted thread. Returns false when another
+ * thread is still playing and the caller didn't ask to replace it.
+ */
+export async function loadSession(
+  tabId: number | null,
+  request: BackgroundRequestMap['loadSession']
+): Promise<{ loaded: boolean; resumePoint: ResumePoint | null }> {
+  const previous = await getSession();
+
+  if (!request.replace && previous && previous.permalink !== request.permalink) {
+    const state = await getSessionState();
+    if (state && (state.isPlaying || state.isPaused)) {
+      console.log(`⏭️ Keeping ${previous.permalink}, still playing`);
+      return { loaded: false, resumePoint: null };
+    }
+  }
+
+  const resumePoint = await findResumePoint(request.permalink, request.items);
+
+  session = {
+    tabId,
+    permalink: request.permalink,
+    title: request.title,
+    community: request.community,
+    items: request.items,
+    selectedVoices: request.selectedVoices,
+    voiceLocale: request.voiceLocale,
+    speed: previous?.speed ?? 1.0,
+    useUniqueVoices: previous?.useUniqueVoices ?? true,
+    position: { index: 0, chunk: 0 },
+    resumePoint,
+    audioExport: null
+  };
+  await saveSession();
+
+  const created = await ensureOffscreenDocument();
+  await sendToOffscreen({
+    action: 'load',
+    items: session.items,
+    title: session.title,
+    community: session.community,
+    selectedVoices: session.selectedVoices,
+    voiceLocale: session.voiceLocale
+  });
+  if (created) {
+    await sendToOffscreen({ action: 'setSpeed', speed: session.speed });
+    await sendToOffscreen({ action: 'setUniqueVoices', enabled: session.useUniqueVoices });
+    await pushEngineSettings();
+  }
+
+  console.log(`📥 Session loaded: ${session.items.length} items from ${session.permalink}`);
+  return { loaded: true, resumePoint };
+}
+
+/**
+ * Add comments the thread's page loaded after the session started. The new list
+ * holds every item already queued, so the saved position follows its item.
+ */
+export async function extendSession(request: BackgroundRequestMap['extendSession']) {
+  const current = await getSession();
+  if (!current || current.permalink !== request.permalink) return;
+
+  // Same merge as the engine's, so both keep the item being read
+  const { items, index } = mergeKeepingCurrent(current.items, current.position.index, request.items);
+  current.position = { ...current.position, index };
+  current.items = items;
+  await saveSession();
+
+  // A closed engine picks the new items up when it is restored
+  if (await chrome.offscreen.hasDocument()) {
+    await sendToOffscreen({ action: 'mergeItems', items });
+  }
+  console.log(`📥 Session extended to ${items.length} items`);
+}
+
+/**
+ * Session state for the popup. Doesn't wake a closed offscreen document just to report it.
+ */
+export async function getSessionState(): Promise<SessionState | null> {
+  const current = await getSession();
+  if (!current) return null;
+
+  let playback: PlaybackState;
+  if (await chrome.offscreen.hasDocument()) {
+    playback = await sendToOffscreen({ action: 'getState' });
+  } else {
+    const item = current.items[current.position.index];
+    playback = {
+      isPlaying: false,
+      isPaused: false,
+      currentIndex: current.position.index,
+      currentChunk: current.position.chunk,
+      totalChunks: 0,
+      totalItems: current.items.length,
+      currentType: item ? item.type : null,
+      speed: current.speed,
+      useUniqueVoices: current.useUniqueVoices,
+      voiceCount: 0,
+      voiceLocale: current.voiceLocale
+    };
+  }
+
+  return {
+    ...playback,
+    permalink: current.permalink,
+    title: current.title,
+    tabId: current.tabId,
+    resumePoint: current.resumePoint,
+    audioExport: current.audioExport ?? null
+  };
+}
+
+export async function resume(): Promise<PlaybackState | null> {
+  const current = await getSession();
+  if (!current) return null;
+
+  if (current.resumePoint) {
+    const { index, chunk } = current.resumePoint;
+    current.resumePoint = null;
+    await saveSession();
+    await control({ action: 'setPosition', index, chunk });
+  }
+  return control({ action: 'play' });
+}
+
+export async function dismissResume() {
+  const current = await getSession();
+  if (!current) return;
+
+  current.resumePoint = null;
+  await saveSession();
+  await clearThreadPosition(current.permalink);
+}
+
+// ---------------------------------------------------------------------------
+// Engine events relayed from the offscreen document
+// ---------------------------------------------------------------------------
+
+/**
+ * Send a highlight instruction to the session's tab. The tab may have navigated
+ * elsewhere or been closed; the content script ignores other threads.
+ */
+async function relayToTab<A extends ContentAction>(request: { action: A } & ContentRequestMap[A]) {
+  const current = await getSession();
+  if (!current || current.tabId === null) return;
+
+  try {
+    await sendToTab(current.tabId, request);
+  } catch {
+    // No content script on the page right now
+  }
+}
+
+export async function onEngineHighlight(index: number) {
+  const current = await getSession();
+  const item = current?.items[index];
+  if (!current || !item) return;
+
+  await relayToTab({ action: 'highlight', permalink: current.permalink, item });
+}
+
+export async function onEngineHighlightWord(index: number, boundary: WordBoundary) {
+  const current = await getSession();
+  const item = current?.items[index];
+  if (!current || !item) return;
+
+  await relayToTab({ action: 'highlightWord', permalink: current.permalink, item, boundary });
+}
+
+export async function onEngineClearHighlight() {
+  await relayToTab({ action: 'clearHighlight' });
+}
+
+export async function onEngineChunkStart(index: number, chunk: number) {
+  const current = await getSession();
+  const item = current?.items[index];
+  if (!current || !item) return;
+
+  current.position = { index, chunk };
+  // Playback has moved on, the old position is no longer worth offering
+  current.resumePoint = null;
+  await saveSession();
+
+  await saveThreadPosition(current.permalink, {
+    itemKey: getItemKey(item),
+    chunk,
+    index,
+    ...treeContext(current.items, index),
+    author: item.author || null,
+    savedAt: Date.now()
+  });
+}
+
+export async function onEngineFinished() {
+  const current = await getSession();
+  if (!current) return;
+
+  current.position = { index: 0, chunk: 0 };
+  await saveSession();
+  await clearThreadPosition(current.permalink);
+}
+
+/**
+ * Track the engine's audio export and download the file once it's ready
+ */
+export async function onEngineAudioExport(progress: AudioExportProgress, url?: string) {
+  const current = await getSession();
+  if (!current) return;
+
+  current.audioExport = progress;
+  await saveSession();
+
+  if (progress.status === 'done' && url) {
+    await chrome.downloads.download({ url, filename: exportFileName(current.title, progress.format) });
+  }
+}
+
+/**
+ * The thread keeps playing after its tab closes; there is just nothing left to highlight
+ */
+export async function onTabRemoved(tabId: number) {
+  const current = await getSession();
+  if (!current || current.tabId !== tabId) return;
+
+  current.tabId = null;
+  await saveSession();
+  console.log(`🗂️ Tab ${tabId} closed, session continues without highlighting`);
+}
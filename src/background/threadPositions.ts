@@ -0,0 +1,77 @@
+// src/background/threadPositions.ts
+
+/**
+ * Last listening position per thread, kept in chrome.storage.local so it
+ * survives navigation, reloads and browser restarts.
+ */
+
+const STORAGE_KEY = 'threadPositions';
+
+// Oldest threads are dropped beyond this
+const MAX_THREADS = 200;
+
+export interface ThreadPosition {
+  itemKey: string; // comment id, or 'title' / 'body'
+  chunk: number;
+  index: number; // last resort when neither the item nor its neighbours are left
+  // Where the item sat in the tree, nearest first, to resume near it when it is
+  // gone. Missing from positions saved before they were recorded.
+  ancestorKeys?: string[];
+  previousKeys?: string[];
+  author: string | null;
+  savedAt: number;
+}
+
+type PositionMap = Record<string, ThreadPosition>;
+
+// Serialize read-modify-write cycles; positions are saved every sentence
+let pendingWrite: Promise<void> = Promise.resolve();
+
+async function readAll(): Promise<PositionMap> {
+  const items = await chrome.storage.local.get(STORAGE_KEY);
+  return (items[STORAGE_KEY] as PositionMap | undefined) || {};
+}
+
+function update(mutate: (positions: PositionMap) => void): Promise<void> {
+  pendingWrite = pendingWrite
+    .then(async () => {
+      const positions = await readAll();
+      mutate(positions);
+      await chrome.storage.local.set({ [STORAGE_KEY]: positions });
+    })
+    .catch(error => {
+      console.error('Failed to store playback position:', error);
+    });
+  return pendingWrite;
+}
+
+export async function loadThreadPosition(permalink: string): Promise<ThreadPosition | null> {
+  await pendingWrite;
+  try {
+    const positions = await readAll();
+    return positions[permalink] || null;
+  } catch (error) {
+    console.error('Failed to read playback position:', error);
+    return null;
+  }
+}
+
+export function saveThreadPosition(permalink: string, position: ThreadPosition): Promise<void> {
+  return update(positions => {
+    positions[permalink] = position;
+
+    const permalinks = Object.keys(positions);
+    if (permalinks.length > MAX_THREADS) {
+      permalinks
+        .sort((a, b) => positions[a].savedAt - positions[b].savedAt)
+        .slice(0, permalinks.length - MAX_THREADS)
+        .forEach(key => delete positions[key]);
+    }
+  });
+}
+
+export function clearThreadPosition(permalink: string): Promise<void> {
+  return update(positions => {
+    delete positions[permalink];
+  });
+}
@@ -1,438 +1,253 @@
 // src/content/content.ts
 
-import { CommentData } from '../types';
+import { CommentData, ContentItem, ExpansionStrategy, ExtractionMode, LinkMode } from '../types';
+import { getPageAdapter } from '../adapters';
+import { clearWordHighlight, highlightWord } from './wordHighlight';
+import { createFetchSource, extractThreadFromJson } from '../extraction/redditJson';
+import { ScoreOptions, applyScoreOptions, insertThreadByScore } from '../utils/scoreFilter';
+import { AuthorRule, DEFAULT_AUTHOR_RULES, applyAuthorRules } from '../utils/authorFilters';
+import { ContentRule, DEFAULT_CONTENT_RULES, applyContentRules } from '../utils/contentFilters';
+import {
+  CONTENT_REQUEST_SCHEMA,
+  CommentSummary,
+  ContentRequestMap,
+  ContentResponseMap,
+  ContentState,
+  listen,
+  sendToBackground
+} from '../messaging/protocol';
 
 let comments: CommentData[] = [];
-let currentIndex = 0;
-let playbackSpeed = 1.0;
-let isPlaying = false;
-let isPaused = false;
-const synthesis = window.speechSynthesis;
-let currentUtterance: SpeechSynthesisUtterance | null = null;
-let availableVoices: SpeechSynthesisVoice[] = [];
-let filteredVoices: SpeechSynthesisVoice[] = [];
-let useUniqueVoices = true;
 let maxDepth = 3;
 let maxTopLevelComments = 50;
 let maxTotalComments = 300;
-let expansionStrategy: 'breadth' | 'depth' | 'balanced' = 'balanced';
+let expansionStrategy: ExpansionStrategy = 'balanced';
+let extractionMode: ExtractionMode = 'dom';
+let linkMode: LinkMode = 'remove';
 let voiceLocale = 'en-US';
-let selectedVoiceNames: string[] = [];
+let selectedVoices: string[] = [];
+let authorRules: AuthorRule[] = DEFAULT_AUTHOR_RULES;
+let authorFilterCounts: Record<string, number> = {};
+let contentRules: ContentRule[] = DEFAULT_CONTENT_RULES;
+let contentFilterCounts: Record<string, number> = {};
+let scoreOptions: ScoreOptions = { minScore: null, dropReplies: false, sortByScore: false };
 
 // Post content
 let postTitle = '';
 let postBody = '';
-let allContent: Array<{ type: 'title' | 'body' | 'comment'; text: string; author?: string | null; depth?: number; id?: string }> = [];
+let postAuthor: string | null = null;
+let allContent: ContentItem[] = [];
+
+let adapter = getPageAdapter(location);
 
 // Extraction state
 let isExtracting = false;
 let shouldStopExtraction = false;
 let extractionProgress = 0;
 
-// List of bot/moderator accounts to filter out
-const FILTERED_AUTHORS = [
-  'automoderator',
-  'automod',
-  'moderator',
-  'bot',
-  'modbot',
-  'reddit',
-];
+// Comments the page keeps loading after playback has started
+let isLoadingMore = false;
+let expansionRun = 0;            // bumped to abandon an expansion still clicking
+let commentObserver: MutationObserver | null = null;
+let mergeTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Wait for a burst of inserted comments to settle before re-reading the page
+const MERGE_DELAY_MS = 500;
 
 /**
- * Check if an author should be filtered out
+ * Playback lives in the background; leaving the page only needs the highlight gone
  */
-function shouldFilterAuthor(author: string | null): boolean {
-  if (!author) return false;
-
-  const lowerAuthor = author.toLowerCase();
-
-  if (FILTERED_AUTHORS.includes(lowerAuthor)) {
-    return true;
-  }
-
-  if (lowerAuthor.includes('bot')) {
-    return true;
-  }
-
-  if (lowerAuthor.endsWith('bot') || lowerAuthor.endsWith('_bot')) {
-    return true;
-  }
-
-  if (lowerAuthor.startsWith('mod')) {
-    return true;
-  }
-
-  return false;
+function cleanup() {
+  console.log('🧹 Cleaning up...');
+  clearHighlight();
+  console.log('✅ Cleanup complete');
 }
 
 /**
- * Remove URLs from text
+ * Author, content and score filters, recording what each rule removed.
+ * Sorting is left out when merging, which needs the page's order.
  */
-function removeLinks(text: string): string {
-  // Remove markdown links [text](url)
-  text = text.replace(/\[([^\]]+)\]\([^\)]+\)/g, '$1');
-
-  // Remove plain URLs (http, https, www)
-  text = text.replace(/https?:\/\/[^\s]+/g, '');
-  text = text.replace(/www\.[^\s]+/g, '');
-
-  // Remove subreddit links (r/something)
-  text = text.replace(/\br\/\w+/g, '');
-
-  // Remove user mentions (u/someone)
-  text = text.replace(/\bu\/\w+/g, '');
-
-  // Clean up extra spaces
-  text = text.replace(/\s+/g, ' ').trim();
+function filterComments(extracted: CommentData[], sortByScore: boolean): CommentData[] {
+  const filtered = applyAuthorRules(extracted, authorRules, adapter.site.community(location));
+  authorFilterCounts = filtered.removedByRule;
 
-  return text;
-}
+  const masked = applyContentRules(filtered.comments, contentRules);
+  contentFilterCounts = masked.matchedByRule;
 
-// Load available voices and filter by locale
-function loadVoices() {
-  availableVoices = synthesis.getVoices();
-  filterVoicesByLocale(voiceLocale);
+  return applyScoreOptions(masked.comments, { ...scoreOptions, sortByScore });
 }
 
-function filterVoicesByLocale(locale: string) {
-  voiceLocale = locale;
-
-  // Don't filter by locale anymore - allow mixing
-  // Just get all English voices
-  filteredVoices = availableVoices.filter(voice =>
-    voice.lang.startsWith('en-') || voice.lang === 'en'
-  );
+function buildAllContent() {
+  allContent = [];
 
-  if (filteredVoices.length === 0) {
-    filteredVoices = availableVoices;
+  if (postTitle) {
+    allContent.push({ type: 'title', text: postTitle, author: postAuthor });
   }
 
-  console.log(`🎤 Total voices: ${availableVoices.length}`);
-  console.log(`🌍 English voices available: ${filteredVoices.length}`);
-}
+  if (postBody) {
+    allContent.push({ type: 'body', text: postBody, author: postAuthor });
+  }
 
-loadVoices();
-if (synthesis.onvoiceschanged !== undefined) {
-  synthesis.onvoiceschanged = loadVoices;
+  comments.forEach(comment => {
+    allContent.push({
+      type: 'comment',
+      text: comment.text,
+      author: comment.author,
+      depth: comment.depth,
+      id: comment.id
+    });
+  });
 }
 
 /**
- * Auto-expand "More replies" buttons with strategy support
+ * Expand the page with the adapter's "load more" controls while the comments
+ * already there are being read. Comment elements the clicks add are merged
+ * in as they appear.
  */
-async function expandCommentsToDepth(
+function startLoadingMore(
   targetDepth: number,
   maxTopLevel: number,
   maxTotal: number,
-  strategy: 'breadth' | 'depth' | 'balanced'
-): Promise<void> {
-  console.log(`🔄 Expanding comments (depth: ${targetDepth}, topLevel: ${maxTopLevel}, total: ${maxTotal}, strategy: ${strategy})...`);
-
-  isExtracting = true;
+  strategy: ExpansionStrategy
+) {
+  stopLoadingMore();
+  const run = expansionRun;
+  isLoadingMore = true;
   shouldStopExtraction = false;
 
-  // Check initial state
-  const initialComments = document.querySelectorAll('shreddit-comment');
-  const initialTopLevel = document.querySelectorAll('shreddit-comment[depth="0"]');
-  extractionProgress = initialComments.length;
-  console.log(`📊 Initial state: ${extractionProgress} total, ${initialTopLevel.length} top-level`);
-
-  // If we already have too many, don't expand at all
-  if (initialComments.length >= maxTotal) {
-    console.log(`⚠️  Already at/over limit (${initialComments.length}/${maxTotal}). Not expanding.`);
-    isExtracting = false;
-    return;
-  }
-
-  if (initialTopLevel.length >= maxTopLevel) {
-    console.log(`⚠️  Already at/over top-level limit (${initialTopLevel.length}/${maxTopLevel}). Only expanding depth.`);
-  }
-
-  let iterations = 0;
-  const maxIterations = 50;
-
-  while (iterations < maxIterations && !shouldStopExtraction) {
-    // Count current comments FIRST before finding buttons
-    const allComments = document.querySelectorAll('shreddit-comment');
-    const currentTotal = allComments.length;
-    extractionProgress = currentTotal;
-
-    const topLevelComments = document.querySelectorAll('shreddit-comment[depth="0"]');
-    const topLevelCount = topLevelComments.length;
-
-    console.log(`   Iteration ${iterations + 1}: ${currentTotal}/${maxTotal} total, ${topLevelCount}/${maxTopLevel} top-level`);
-
-    // STOP if we've hit ANY limit
-    if (currentTotal >= maxTotal) {
-      console.log(`✅ Reached max total comments: ${maxTotal}`);
-      break;
-    }
-
-    if (shouldStopExtraction) {
-      console.log(`⏹️  User stopped extraction at ${currentTotal} comments`);
-      break;
-    }
-
-    if (topLevelCount >= maxTopLevel && strategy !== 'depth') {
-      // For non-depth strategies, check if there are still depth buttons to click
-      const hasDepthButtons = Array.from(document.querySelectorAll('faceplate-partial')).some(partial => {
-        const button = partial.querySelector('button');
-        if (!button) return false;
-
-        const text = button.textContent?.toLowerCase() || '';
-        if (!text.includes('more replies') && !text.includes('more comment')) {
-          return false;
-        }
-
-        let depth = 0;
-        let parent = partial.parentElement;
-        while (parent) {
-          if (parent.tagName.toLowerCase() === 'shreddit-comment') {
-            depth = parseInt(parent.getAttribute('depth') || '0', 10) + 1;
-            break;
-          }
-          parent = parent.parentElement;
-        }
-        return depth > 0;
-      });
-
-      if (!hasDepthButtons) {
-        console.log(`✅ Reached max top-level comments: ${maxTopLevel}`);
-        break;
-      }
-    }
-
-    // Find all "More replies" buttons with their depths
-    const moreButtons = Array.from(document.querySelectorAll('faceplate-partial'))
-      .map(partial => {
-        const button = partial.querySelector('button');
-        if (!button) return null;
-
-        const text = button.textContent?.toLowerCase() || '';
-        if (!text.includes('more replies') && !text.includes('more comment')) {
-          return null;
-        }
-
-        let depth = 0;
-        let parent = partial.parentElement;
-        while (parent) {
-          if (parent.tagName.toLowerCase() === 'shreddit-comment') {
-            const commentDepth = parseInt(parent.getAttribute('depth') || '0', 10);
-            depth = commentDepth + 1;
-            break;
-          }
-          parent = parent.parentElement;
-        }
-
-        return { button: button as HTMLElement, depth };
-      })
-      .filter((item): item is { button: HTMLElement; depth: number } => item !== null)
-      .filter(item => {
-        switch (strategy) {
-          case 'breadth':
-            if (item.depth === 0 && topLevelCount >= maxTopLevel) {
-              return false;
-            }
-            return item.depth <= Math.min(2, targetDepth);
-
-          case 'depth':
-            if (item.depth === 0 && topLevelCount >= Math.min(10, maxTopLevel)) {
-              return false;
-            }
-            return item.depth < targetDepth;
-
-          case 'balanced':
-          default:
-            if (item.depth === 0 && topLevelCount >= maxTopLevel) {
-              return false;
-            }
-            return item.depth < targetDepth;
-        }
-      })
-      .sort((a, b) => {
-        switch (strategy) {
-          case 'breadth':
-            return a.depth - b.depth;
-          case 'depth':
-            return b.depth - a.depth;
-          case 'balanced':
-          default:
-            return a.depth - b.depth;
-        }
-      });
-
-    console.log(`   Found ${moreButtons.length} "More replies" buttons (after filtering)`);
-
-    if (moreButtons.length === 0) {
-      console.log(`✅ No more buttons to click`);
-      break;
+  commentObserver = new MutationObserver(records => {
+    const added = records.some(record => Array.from(record.addedNodes).some(node =>
+      node instanceof Element && (node.matches(adapter.commentSelector) || !!node.querySelector(adapter.commentSelector))
+    ));
+    if (added && mergeTimer === null) {
+      mergeTimer = setTimeout(() => {
+        mergeTimer = null;
+        mergeNewComments();
+      }, MERGE_DELAY_MS);
     }
-
-    const remainingBudget = maxTotal - currentTotal;
-    console.log(`   Remaining budget: ${remainingBudget} comments`);
-
-    if (remainingBudget <= 0) {
-      console.log(`✅ Budget exhausted`);
-      break;
-    }
-
-    const batchSize = strategy === 'breadth' ? 3 : 2;
-    const estimatedCommentsPerButton = 7;
-    const maxButtonsToClick = Math.max(1, Math.floor(remainingBudget / estimatedCommentsPerButton));
-    const buttonsToClick = moreButtons.slice(0, Math.min(moreButtons.length, maxButtonsToClick));
-
-    console.log(`   Clicking ${buttonsToClick.length} buttons`);
-
-    for (let i = 0; i < buttonsToClick.length; i += batchSize) {
-      if (shouldStopExtraction) break;
-
-      const currentCount = document.querySelectorAll('shreddit-comment').length;
-      extractionProgress = currentCount;
-
-      if (currentCount >= maxTotal) {
-        console.log(`   Stopping: reached ${maxTotal} total comments`);
-        break;
-      }
-
-      const batch = buttonsToClick.slice(i, i + batchSize);
-      batch.forEach(item => {
-        console.log(`   Clicking "More replies" at depth ${item.depth}`);
-        item.button.click();
-      });
-
-      await new Promise(resolve => setTimeout(resolve, 1000));
+  });
+  commentObserver.observe(document.body, { childList: true, subtree: true });
+
+  adapter.expandComments({
+    targetDepth,
+    maxTopLevel,
+    maxTotal,
+    strategy,
+    shouldStop: () => shouldStopExtraction || run !== expansionRun,
+    onProgress: (count) => {
+      extractionProgress = count;
     }
-
-    await new Promise(resolve => setTimeout(resolve, 800));
-    iterations++;
-  }
-
-  if (iterations >= maxIterations) {
-    console.warn('⚠️  Stopped after max iterations');
-  }
-
-  const finalCount = document.querySelectorAll('shreddit-comment').length;
-  const finalTopLevel = document.querySelectorAll('shreddit-comment[depth="0"]').length;
-  extractionProgress = finalCount;
-  console.log(`📊 Final: ${finalCount} total comments, ${finalTopLevel} top-level`);
-
-  if (finalCount > maxTotal) {
-    console.log(`⚠️  Note: Loaded ${finalCount} comments (target was ${maxTotal}). Some were pre-loaded by Reddit.`);
-  }
-
-  isExtracting = false;
+  })
+    .catch(error => {
+      console.error('❌ Loading more comments failed:', error);
+    })
+    .finally(() => {
+      if (run !== expansionRun) return;
+      stopLoadingMore();
+      // Whatever the last clicks loaded
+      mergeNewComments();
+    });
 }
 
-function getVoiceForIndex(index: number): SpeechSynthesisVoice | null {
-  if (filteredVoices.length === 0) {
-    return null;
-  }
-
-  if (!useUniqueVoices) {
-    return filteredVoices[0];
-  }
-
-  // If user has selected specific voices, use only those
-  let voicesToUse = filteredVoices;
-  if (selectedVoiceNames.length > 0) {
-    voicesToUse = filteredVoices.filter(v => selectedVoiceNames.includes(v.name));
-    if (voicesToUse.length === 0) {
-      voicesToUse = filteredVoices;
-    }
+/**
+ * Stop watching for new comments. An expansion still running gives up at its next check.
+ */
+function stopLoadingMore() {
+  expansionRun++;
+  isLoadingMore = false;
+  commentObserver?.disconnect();
+  commentObserver = null;
+  if (mergeTimer !== null) {
+    clearTimeout(mergeTimer);
+    mergeTimer = null;
   }
-
-  const voiceIndex = index % voicesToUse.length;
-  return voicesToUse[voiceIndex];
-}
-
-function cleanup() {
-  console.log('🧹 Cleaning up...');
-  synthesis.cancel();
-  clearHighlight();
-  isPlaying = false;
-  isPaused = false;
-  currentUtterance = null;
-  console.log('✅ Cleanup complete');
-}
-
-function extractPostContent(): { title: string; body: string } {
-  console.log('📰 Extracting post title and body...');
-
-  const titleElement = document.querySelector('shreddit-post h1') ||
-                       document.querySelector('[slot="title"]') ||
-                       document.querySelector('h1');
-  let title = titleElement?.textContent?.trim() || '';
-  title = removeLinks(title);
-
-  const bodyElement = document.querySelector('shreddit-post div[slot="text-body"]') ||
-                      document.querySelector('[data-click-id="text"]') ||
-                      document.querySelector('div[data-test-id="post-content"]');
-  let body = bodyElement?.textContent?.trim() || '';
-  body = removeLinks(body);
-
-  console.log('📰 Title:', title.substring(0, 100));
-  console.log('📰 Body:', body ? body.substring(0, 100) : '(none)');
-
-  return { title, body };
 }
 
-function extractComments(): CommentData[] {
-  console.log('🔍 Starting comment extraction...');
-
-  const extractedComments: CommentData[] = [];
-  const commentElements = document.querySelectorAll('shreddit-comment');
-  console.log(`📊 Found ${commentElements.length} shreddit-comment elements`);
-
-  let filteredCount = 0;
-
-  commentElements.forEach((element) => {
-    const commentEl = element as HTMLElement;
-
-    const thingId = commentEl.getAttribute('thingid') || '';
-    const id = thingId || `comment-${extractedComments.length}`;
-    const author = commentEl.getAttribute('author') || null;
-    const depth = parseInt(commentEl.getAttribute('depth') || '0', 10);
-
-    if (shouldFilterAuthor(author)) {
-      console.log(`🚫 Filtered out comment from: ${author}`);
-      filteredCount++;
+/**
+ * Re-read the page and slot comments that weren't there before into the
+ * reading order, each after the comment that precedes it on the page: its
+ * parent, or the end of its previous sibling's replies. When sorting by score,
+ * new top-level threads go where their score ranks them instead. Known
+ * comments keep their order, so the session can keep its place.
+ */
+function mergeNewComments() {
+  const pageOrder = filterComments(adapter.extractComments(linkMode), false);
+  const known = new Set(comments.map(comment => comment.id));
+  if (pageOrder.every(comment => known.has(comment.id))) return;
+
+  let merged = comments.slice();
+  const newThreads: CommentData[][] = [];
+  let newThread: CommentData[] | null = null;
+  let anchor = -1;
+  pageOrder.forEach(comment => {
+    if (known.has(comment.id)) {
+      anchor = merged.findIndex(existing => existing.id === comment.id);
+      newThread = null;
       return;
     }
-
-    const contentDiv = commentEl.querySelector('[id$="-comment-rtjson-content"]');
-    let text = contentDiv?.textContent?.trim() || '';
-
-    // Remove links from comment text
-    text = removeLinks(text);
-
-    if (!text) {
-      return;
+    known.add(comment.id);
+
+    if (scoreOptions.sortByScore && comment.depth === 0) {
+      newThread = [comment];
+      newThreads.push(newThread);
+    } else if (newThread) {
+      // A reply under a new thread moves with it
+      newThread.push(comment);
+    } else {
+      merged.splice(anchor + 1, 0, comment);
+      anchor++;
     }
+  });
+  newThreads.forEach(thread => {
+    merged = insertThreadByScore(merged, thread);
+  });
 
-    const permalink = commentEl.getAttribute('permalink') || `#${id}`;
+  console.log(`➕ ${merged.length - comments.length} more comments loaded (${merged.length} total)`);
+  comments = merged;
+  buildAllContent();
 
-    extractedComments.push({
-      id,
-      text,
-      author,
-      depth,
-      permalink,
-      element: commentEl
-    });
+  sendToBackground({
+    action: 'extendSession',
+    permalink: adapter.site.threadPermalink(location),
+    items: allContent
+  }).catch(error => {
+    console.error('Failed to extend the session:', error);
   });
+}
 
-  console.log(`🎉 Extraction complete! Total: ${extractedComments.length} (filtered out ${filteredCount} bot/mod comments)`);
-  return extractedComments;
+/**
+ * Read the thread through Reddit's JSON endpoints instead of expanding the page
+ */
+async function extractFromJson(
+  targetDepth: number,
+  maxTopLevel: number,
+  maxTotal: number,
+  strategy: ExpansionStrategy
+) {
+  isExtracting = true;
+  shouldStopExtraction = false;
+  extractionProgress = 0;
+
+  try {
+    return await extractThreadFromJson(location.pathname, createFetchSource(), {
+      maxDepth: targetDepth,
+      maxTopLevel,
+      maxTotal,
+      strategy,
+      linkMode,
+      shouldStop: () => shouldStopExtraction,
+      onProgress: (count) => {
+        extractionProgress = count;
+      }
+    });
+  } finally {
+    isExtracting = false;
+  }
 }
 
-function highlightComment(commentId: string) {
+function highlightComment(el: HTMLElement) {
   clearHighlight();
 
-  const comment = document.querySelector(`shreddit-comment[thingid="${commentId}"]`);
-  if (!comment) return;
-
-  const el = comment as HTMLElement;
-
   el.classList.add('reddit-reader-highlight');
   el.setAttribute('data-reddit-out-loud-active', 'true');
 
@@ -481,25 +296,26 @@ function highlightComment(commentId: string) {
     block: 'center'
   });
 
-  console.log('✨ Highlighted comment:', commentId);
+  console.log('✨ Highlighted comment:', el.getAttribute('thingid') || el.getAttribute('data-fullname') || el.id);
 }
 
-function highlightPost() {
-  const postElement = document.querySelector('shreddit-post');
-  if (postElement) {
-    const el = postElement as HTMLElement;
-    el.style.backgroundColor = '#fff3cd';
-    el.style.outline = '3px solid #ffc107';
-    el.style.transition = 'all 0.3s ease';
+function highlightPost(el: HTMLElement) {
+  clearHighlight();
 
-    el.scrollIntoView({
-      behavior: 'smooth',
-      block: 'start'
-    });
-  }
+  el.setAttribute('data-reddit-out-loud-post', 'true');
+  el.style.backgroundColor = '#fff3cd';
+  el.style.outline = '3px solid #ffc107';
+  el.style.transition = 'all 0.3s ease';
+
+  el.scrollIntoView({
+    behavior: 'smooth',
+    block: 'start'
+  });
 }
 
 function clearHighlight() {
+  clearWordHighlight();
+
   const indicator = document.getElementById('reddit-out-loud-indicator');
   if (indicator) {
     indicator.remove();
@@ -520,267 +336,208 @@ function clearHighlight() {
     }
   }
 
-  const postElement = document.querySelector('shreddit-post');
+  const postElement = document.querySelector('[data-reddit-out-loud-post="true"]');
   if (postElement) {
     const el = postElement as HTMLElement;
+    el.removeAttribute('data-reddit-out-loud-post');
     el.style.backgroundColor = '';
     el.style.outline = '';
     el.style.transition = '';
   }
 }
 
-function readContent(index: number) {
-  if (index >= allContent.length || index < 0) return;
-
-  const item = allContent[index];
-  const voice = getVoiceForIndex(index);
+/**
+ * Highlight instructions arrive from the background session, which may be playing
+ * a thread this page no longer shows
+ */
+function isCurrentThread(permalink: string): boolean {
+  return adapter.site.threadPermalink(location) === permalink;
+}
 
-  console.log(`🗣️  Reading ${item.type} ${index + 1}/${allContent.length}`);
+function highlightItem(item: ContentItem) {
+  const target = adapter.getHighlightTarget(item);
+  if (!target) {
+    clearHighlight();
+    return;
+  }
 
-  if (item.type === 'title') {
-    highlightPost();
-  } else if (item.type === 'body') {
-    highlightPost();
+  if (item.type === 'comment') {
+    highlightComment(target);
   } else {
-    if (item.id) {
-      highlightComment(item.id);
-    }
+    highlightPost(target);
   }
+}
 
-  currentUtterance = new SpeechSynthesisUtterance(item.text);
-  currentUtterance.rate = playbackSpeed;
-  currentUtterance.lang = voiceLocale;
+/**
+ * Hand the extracted thread to the background session, which owns playback
+ */
+function loadSession(replace: boolean) {
+  return sendToBackground({
+    action: 'loadSession',
+    replace,
+    permalink: adapter.site.threadPermalink(location),
+    title: postTitle,
+    community: adapter.site.community(location),
+    items: allContent,
+    selectedVoices,
+    voiceLocale
+  });
+}
 
-  if (voice) {
-    currentUtterance.voice = voice;
-  }
+function summarizeComments(): CommentSummary[] {
+  return comments.map(c => ({
+    id: c.id,
+    author: c.author,
+    depth: c.depth,
+    text: c.text,
+    permalink: c.permalink,
+    score: c.score,
+    createdAt: c.createdAt,
+    isOp: c.isOp,
+    links: c.links
+  }));
+}
 
-  currentUtterance.onend = () => {
-    if (currentIndex < allContent.length - 1) {
-      currentIndex++;
-      setTimeout(() => readContent(currentIndex), 100);
+function getContentState(): ContentState {
+  return {
+    permalink: adapter.site.threadPermalink(location),
+    totalComments: comments.length,
+    totalItems: allContent.length,
+    hasTitle: !!postTitle,
+    hasBody: !!postBody,
+    title: postTitle,
+    maxDepth,
+    maxTopLevelComments,
+    maxTotalComments,
+    expansionStrategy,
+    extractionMode,
+    isExtracting,
+    isLoadingMore,
+    extractionProgress,
+    comments: summarizeComments(),
+    authorFilterCounts,
+    contentFilterCounts
+  };
+}
+
+listen<ContentRequestMap, ContentResponseMap>(CONTENT_REQUEST_SCHEMA, {
+  extractComments: async (request) => {
+    const depth = request.maxDepth !== undefined ? request.maxDepth : maxDepth;
+    const maxTopLevel = request.maxTopLevelComments !== undefined ? request.maxTopLevelComments : maxTopLevelComments;
+    const maxTotal = request.maxTotalComments !== undefined ? request.maxTotalComments : maxTotalComments;
+    const strategy = request.expansionStrategy || expansionStrategy;
+    const mode = request.extractionMode || extractionMode;
+    const locale = request.voiceLocale || voiceLocale;
+
+    maxDepth = depth;
+    maxTopLevelComments = maxTopLevel;
+    maxTotalComments = maxTotal;
+    expansionStrategy = strategy;
+    extractionMode = mode;
+    voiceLocale = locale;
+    selectedVoices = request.selectedVoices || [];
+    linkMode = request.linkMode || linkMode;
+    authorRules = request.authorRules || authorRules;
+    contentRules = request.contentRules || contentRules;
+    scoreOptions = {
+      minScore: request.minScore ?? null,
+      dropReplies: !!request.minScoreDropsReplies,
+      sortByScore: !!request.sortByScore
+    };
+
+    // A new extraction replaces one still loading more
+    stopLoadingMore();
+
+    const fromPage = !(mode === 'json' && adapter.supportsJsonExtraction);
+    let extracted: CommentData[];
+    if (!fromPage) {
+      const thread = await extractFromJson(depth, maxTopLevel, maxTotal, strategy);
+      postTitle = thread.title;
+      postBody = thread.body;
+      postAuthor = thread.author;
+      extracted = thread.comments;
     } else {
-      console.log('🎉 Finished all content');
-      isPlaying = false;
-      clearHighlight();
+      // Start with what the page already shows; the rest streams in below
+      const postContent = adapter.extractPost(linkMode);
+      postTitle = postContent.title;
+      postBody = postContent.body;
+      postAuthor = postContent.author;
+
+      extracted = adapter.extractComments(linkMode);
     }
-  };
 
-  currentUtterance.onerror = () => {
-    isPlaying = false;
-  };
+    comments = filterComments(extracted, scoreOptions.sortByScore);
+    buildAllContent();
 
-  synthesis.speak(currentUtterance);
-  isPlaying = true;
-  isPaused = false;
-}
+    const session = await loadSession(false);
 
-chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
-  console.log('📨 Message received:', request);
-
-  switch (request.action) {
-    case 'extractComments':
-      (async () => {
-        try {
-          const depth = request.maxDepth !== undefined ? request.maxDepth : maxDepth;
-          const maxTopLevel = request.maxTopLevelComments !== undefined ? request.maxTopLevelComments : maxTopLevelComments;
-          const maxTotal = request.maxTotalComments !== undefined ? request.maxTotalComments : maxTotalComments;
-          const strategy = request.expansionStrategy || expansionStrategy;
-          const locale = request.voiceLocale || voiceLocale;
-          const selectedVoices = request.selectedVoices || [];
-
-          maxDepth = depth;
-          maxTopLevelComments = maxTopLevel;
-          maxTotalComments = maxTotal;
-          expansionStrategy = strategy;
-          selectedVoiceNames = selectedVoices;
-
-          if (locale !== voiceLocale) {
-            filterVoicesByLocale(locale);
-          }
-
-          await expandCommentsToDepth(depth, maxTopLevel, maxTotal, strategy);
-
-          const postContent = extractPostContent();
-          postTitle = postContent.title;
-          postBody = postContent.body;
-
-          comments = extractComments();
-          currentIndex = 0;
-
-          allContent = [];
-
-          if (postTitle) {
-            allContent.push({ type: 'title', text: postTitle });
-          }
-
-          if (postBody) {
-            allContent.push({ type: 'body', text: postBody });
-          }
-
-          comments.forEach(comment => {
-            allContent.push({
-              type: 'comment',
-              text: comment.text,
-              author: comment.author,
-              depth: comment.depth,
-              id: comment.id
-            });
-          });
-
-          console.log(`📚 Total: ${allContent.length} items (${comments.length} comments)`);
-
-          sendResponse({
-            success: true,
-            count: comments.length,
-            totalItems: allContent.length,
-            hasTitle: !!postTitle,
-            hasBody: !!postBody,
-            title: postTitle,
-            maxDepth: depth,
-            maxTopLevelComments: maxTopLevel,
-            maxTotalComments: maxTotal,
-            expansionStrategy: strategy,
-            voiceLocale: locale,
-            comments: comments.map(c => ({
-              id: c.id,
-              author: c.author,
-              depth: c.depth,
-              text: c.text,
-              permalink: c.permalink
-            }))
-          });
-        } catch (error) {
-          console.error('❌ Error during extraction:', error);
-          sendResponse({ success: false, error: String(error) });
-        }
-      })();
-      return true;
-
-    case 'stopExtraction':
-      shouldStopExtraction = true;
-      sendResponse({ success: true, stopped: true });
-      break;
-
-    case 'getExtractionProgress':
-      sendResponse({
-        isExtracting,
-        progress: extractionProgress,
-        canStop: isExtracting
-      });
-      break;
-
-    case 'play':
-      if (synthesis.paused) {
-        console.log('▶️ Resuming from pause');
-        synthesis.resume();
-        isPaused = false;
-        isPlaying = true;
-      } else if (!synthesis.speaking) {
-        console.log('▶️ Starting playback');
-        readContent(currentIndex);
-      }
-      sendResponse({ success: true, isPlaying: true });
-      break;
-
-    case 'pause':
-      if (synthesis.speaking) {
-        synthesis.pause();
-        isPaused = true;
-        isPlaying = false;
-      }
-      sendResponse({ success: true, isPaused: true });
-      break;
-
-    case 'stop':
-      synthesis.cancel();
-      currentIndex = 0;
-      isPlaying = false;
-      isPaused = false;
-      clearHighlight();
-      sendResponse({ success: true });
-      break;
-
-    case 'next':
-      synthesis.cancel();
-      if (currentIndex < allContent.length - 1) {
-        currentIndex++;
-        readContent(currentIndex);
-      }
-      sendResponse({ success: true, currentIndex });
-      break;
+    if (fromPage) {
+      startLoadingMore(depth, maxTopLevel, maxTotal, strategy);
+    }
 
-    case 'previous':
-      synthesis.cancel();
-      if (currentIndex > 0) {
-        currentIndex--;
-      }
-      readContent(currentIndex);
-      sendResponse({ success: true, currentIndex });
-      break;
-
-    case 'setSpeed':
-      playbackSpeed = request.speed;
-      sendResponse({ success: true });
-      break;
-
-    case 'toggleUniqueVoices':
-      useUniqueVoices = request.enabled;
-      sendResponse({ success: true, enabled: useUniqueVoices });
-      break;
-
-    case 'setVoiceLocale':
-      filterVoicesByLocale(request.locale);
-      sendResponse({ success: true, voiceLocale });
-      break;
-
-    case 'getState':
-      const currentItem = allContent[currentIndex];
-
-      // Calculate selected voice count
-      let selectedVoiceCount = filteredVoices.length;
-      if (selectedVoiceNames.length > 0) {
-        const matchingVoices = filteredVoices.filter(v => selectedVoiceNames.includes(v.name));
-        selectedVoiceCount = matchingVoices.length;
-      }
+    console.log(`📚 Total: ${allContent.length} items (${comments.length} comments)`);
+
+    return {
+      count: comments.length,
+      totalItems: allContent.length,
+      hasTitle: !!postTitle,
+      hasBody: !!postBody,
+      title: postTitle,
+      maxDepth: depth,
+      maxTopLevelComments: maxTopLevel,
+      maxTotalComments: maxTotal,
+      expansionStrategy: strategy,
+      extractionMode: mode,
+      voiceLocale: locale,
+      comments: summarizeComments(),
+      resumePoint: session.resumePoint
+    };
+  },
+
+  stopExtraction: () => {
+    shouldStopExtraction = true;
+    return { stopped: true };
+  },
+
+  getExtractionProgress: () => ({
+    isExtracting,
+    progress: extractionProgress,
+    canStop: isExtracting
+  }),
+
+  getState: () => getContentState(),
+
+  loadSession: async () => {
+    const { loaded, resumePoint } = await loadSession(true);
+    return { loaded, resumePoint };
+  },
+
+  highlight: (request) => {
+    if (isCurrentThread(request.permalink)) {
+      highlightItem(request.item);
+    }
+    return {};
+  },
 
-      sendResponse({
-        isPlaying: synthesis.speaking && !synthesis.paused,
-        isPaused: synthesis.paused,
-        currentIndex,
-        totalComments: comments.length,
-        totalItems: allContent.length,
-        speed: playbackSpeed,
-        useUniqueVoices,
-        voiceCount: selectedVoiceCount,
-        currentType: currentItem?.type || null,
-        hasTitle: !!postTitle,
-        hasBody: !!postBody,
-        title: postTitle,
-        maxDepth,
-        maxTopLevelComments,
-        maxTotalComments,
-        expansionStrategy,
-        voiceLocale,
-        isExtracting,
-        extractionProgress,
-        comments: comments.map(c => ({
-          id: c.id,
-          author: c.author,
-          depth: c.depth,
-          text: c.text,
-          permalink: c.permalink
-        }))
-      });
-      break;
-
-    case 'cleanup':
-      cleanup();
-      sendResponse({ success: true });
-      break;
-  }
+  highlightWord: (request) => {
+    if (!isCurrentThread(request.permalink)) return {};
 
-  return true;
+    const textElement = adapter.getTextElement(request.item);
+    if (textElement) {
+      highlightWord(textElement, request.item.text, request.boundary);
+    }
+    return {};
+  },
+
+  clearHighlight: () => {
+    clearHighlight();
+    return {};
+  },
+
+  cleanup: () => {
+    cleanup();
+    return {};
+  }
 });
 
 window.addEventListener('beforeunload', () => {
@@ -795,13 +552,17 @@ new MutationObserver(() => {
   const currentUrl = location.href;
   if (currentUrl !== lastUrl) {
     cleanup();
+    stopLoadingMore();
     comments = [];
+    authorFilterCounts = {};
+    contentFilterCounts = {};
     allContent = [];
     postTitle = '';
     postBody = '';
-    currentIndex = 0;
+    postAuthor = null;
+    adapter = getPageAdapter(location);
     lastUrl = currentUrl;
   }
 }).observe(document, { subtree: true, childList: true });
 
-console.log('🚀 Reddit Out Loud - Content Script Loaded');
\ No newline at end of file
+console.log(`🚀 Reddit Out Loud - Content Script Loaded (${adapter.site.label})`);
\ No newline at end of file
@@ -0,0 +1,156 @@
+// src/content/wordHighlight.ts
+
+import { WordBoundary } from '../playback/playback';
+
+/**
+ * Karaoke-style highlighting of the word being spoken inside the rendered comment.
+ * Uses the CSS Custom Highlight API so Reddit's markup is never modified and
+ * clearing is a single registry delete.
+ */
+
+// lib.dom declares the registry without its maplike methods
+declare global {
+  interface HighlightRegistry extends Map<string, Highlight> {}
+}
+
+const HIGHLIGHT_NAME = 'reddit-out-loud-word';
+const STYLE_ID = 'reddit-out-loud-word-styles';
+
+interface TextIndex {
+  element: HTMLElement;
+  nodes: Text[];
+  starts: number[];
+  text: string;
+}
+
+// How far past the previous word the next one may be found while reading on
+const FORWARD_WINDOW = 80;
+
+let textIndex: TextIndex | null = null;
+let lastItemOffset = -1;
+let lastDomOffset = 0;
+
+function supportsHighlights(): boolean {
+  return typeof Highlight !== 'undefined' && typeof CSS !== 'undefined' && 'highlights' in CSS;
+}
+
+/**
+ * Concatenate the element's text nodes, remembering where each one starts
+ */
+function buildIndex(element: HTMLElement): TextIndex {
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  const nodes: Text[] = [];
+  const starts: number[] = [];
+  let text = '';
+
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    nodes.push(node);
+    starts.push(text.length);
+    text += node.data;
+  }
+
+  return { element, nodes, starts, text };
+}
+
+function ensureStyles() {
+  if (document.getElementById(STYLE_ID)) return;
+
+  const style = document.createElement('style');
+  style.id = STYLE_ID;
+  style.textContent = `
+    ::highlight(${HIGHLIGHT_NAME}) {
+      background-color: #ffc107;
+      color: #000;
+    }
+  `;
+  document.head.appendChild(style);
+}
+
+/**
+ * Find the spoken word in the rendered text. Boundaries point into the item
+ * text, which differs from the page where links were replaced or removed, so
+ * offsets only roughly line up: search a little way forward from the previous
+ * word while reading normally, else take the occurrence nearest the
+ * proportional position. A word with no plausible match (e.g. link text that
+ * isn't on the page) leaves the current highlight alone.
+ */
+function locateWord(index: TextIndex, itemText: string, boundary: WordBoundary): { start: number; length: number } | null {
+  const core = boundary.word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+  if (!core) return null;
+
+  if (boundary.start >= lastItemOffset) {
+    const next = index.text.indexOf(core, lastDomOffset);
+    if (next >= 0 && next - lastDomOffset <= FORWARD_WINDOW) {
+      return { start: next, length: core.length };
+    }
+  }
+
+  const expected = itemText.length > 0 ? (boundary.start / itemText.length) * index.text.length : 0;
+  let best = -1;
+  let position = index.text.indexOf(core);
+  while (position >= 0) {
+    if (best < 0 || Math.abs(position - expected) < Math.abs(best - expected)) {
+      best = position;
+    }
+    position = index.text.indexOf(core, position + 1);
+  }
+
+  const tolerance = Math.max(FORWARD_WINDOW, index.text.length * 0.15);
+  if (best < 0 || Math.abs(best - expected) > tolerance) return null;
+  return { start: best, length: core.length };
+}
+
+function createRange(index: TextIndex, start: number, length: number): Range | null {
+  let nodeIndex = index.starts.length - 1;
+  while (nodeIndex > 0 && index.starts[nodeIndex] > start) {
+    nodeIndex--;
+  }
+
+  const node = index.nodes[nodeIndex];
+  if (!node) return null;
+
+  const offset = start - index.starts[nodeIndex];
+  const range = document.createRange();
+  range.setStart(node, offset);
+  range.setEnd(node, Math.min(node.data.length, offset + length));
+  return range;
+}
+
+/**
+ * Highlight the spoken word inside the item's rendered text element
+ */
+export function highlightWord(element: HTMLElement, itemText: string, boundary: WordBoundary) {
+  if (!supportsHighlights()) return;
+
+  if (!textIndex || textIndex.element !== element) {
+    textIndex = buildIndex(element);
+    lastItemOffset = -1;
+    lastDomOffset = 0;
+  }
+
+  const match = locateWord(textIndex, itemText, boundary);
+  if (!match) return;
+
+  const range = createRange(textIndex, match.start, match.length);
+  if (!range) return;
+
+  lastItemOffset = boundary.start;
+  lastDomOffset = match.start + match.length;
+
+  ensureStyles();
+  CSS.highlights.set(HIGHLIGHT_NAME, new Highlight(range));
+}
+
+/**
+ * Remove the word highlight and forget the indexed element
+ */
+export function clearWordHighlight() {
+  textIndex = null;
+  lastItemOffset = -1;
+  lastDomOffset = 0;
+
+  if (supportsHighlights()) {
+    CSS.highlights.delete(HIGHLIGHT_NAME);
+  }
+}
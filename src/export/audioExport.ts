@@ -0,0 +1,127 @@
+// src/export/audioExport.ts
+
+import { ContentItem } from '../types';
+import { TtsUtterance } from '../playback/backends';
+import { AudioWriter, Chapter } from './audioWriter';
+import { WavWriter } from './wav';
+import { OggOpusWriter } from './oggOpus';
+
+/**
+ * Render a whole thread to one audio file: every item with its announcement and
+ * voice, exactly as playback would read it, with a chapter for the post and for
+ * each top-level comment. Needs a speech backend that hands back audio data.
+ */
+
+/**
+ * Also the file extension
+ */
+export type AudioExportFormat = 'wav' | 'opus';
+
+export type AudioExportStatus = 'rendering' | 'finishing' | 'done' | 'cancelled' | 'failed';
+
+export interface AudioExportProgress {
+  format: AudioExportFormat;
+  status: AudioExportStatus;
+  done: number;             // items rendered
+  total: number;
+  error: string | null;
+}
+
+export interface AudioExportSource {
+  title: string;
+  items: ContentItem[];
+  utterancesFor(index: number): TtsUtterance[];
+  synthesize(utterance: TtsUtterance, signal: AbortSignal): Promise<ArrayBuffer>;
+}
+
+export const SENTENCE_GAP = 0.15;   // seconds of silence between sentences
+export const ITEM_GAP = 0.5;        // ... and between items
+const CHAPTER_TITLE_LENGTH = 60;
+
+export class ExportCancelledError extends Error {
+  constructor() {
+    super('Audio export cancelled');
+    this.name = 'ExportCancelledError';
+  }
+}
+
+function createWriter(format: AudioExportFormat, title: string): Promise<AudioWriter> {
+  return format === 'opus' ? OggOpusWriter.create(title) : Promise.resolve(new WavWriter());
+}
+
+/**
+ * Decode a clip from the server and resample it to the writer's rate, mixed down to mono
+ */
+async function decodeClip(audio: ArrayBuffer, sampleRate: number): Promise<Float32Array> {
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  const buffer = await context.decodeAudioData(audio);
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return mono;
+}
+
+function chapterTitle(item: ContentItem, title: string): string {
+  if (item.type !== 'comment') return title || 'Post';
+  const text = item.text.replace(/\s+/g, ' ').trim();
+  const excerpt = text.length > CHAPTER_TITLE_LENGTH ? `${text.slice(0, CHAPTER_TITLE_LENGTH).trim()}…` : text;
+  return `u/${item.author || 'deleted'}: ${excerpt}`;
+}
+
+/**
+ * Items that start a chapter: the post (title, or body when there is no title)
+ * and every top-level comment
+ */
+function startsChapter(items: ContentItem[], index: number): boolean {
+  const item = items[index];
+  if (item.type === 'comment') return (item.depth || 0) === 0;
+  return index === 0;
+}
+
+export async function renderThreadAudio(
+  source: AudioExportSource,
+  format: AudioExportFormat,
+  signal: AbortSignal,
+  onProgress: (done: number, total: number) => void
+): Promise<Blob> {
+  const writer = await createWriter(format, source.title);
+  const silence = (seconds: number) => new Float32Array(Math.round(seconds * writer.sampleRate));
+  const chapters: Chapter[] = [];
+  let written = 0;
+
+  const write = async (samples: Float32Array) => {
+    await writer.write(samples);
+    written += samples.length;
+  };
+
+  try {
+    const { items } = source;
+    for (let index = 0; index < items.length; index++) {
+      if (signal.aborted) throw new ExportCancelledError();
+      onProgress(index, items.length);
+
+      if (startsChapter(items, index)) {
+        chapters.push({ start: written / writer.sampleRate, title: chapterTitle(items[index], source.title) });
+      }
+      if (index > 0) await write(silence(ITEM_GAP));
+
+      const utterances = source.utterancesFor(index);
+      for (let i = 0; i < utterances.length; i++) {
+        const audio = await source.synthesize(utterances[i], signal);
+        if (i > 0) await write(silence(SENTENCE_GAP));
+        await write(await decodeClip(audio, writer.sampleRate));
+      }
+    }
+
+    onProgress(items.length, items.length);
+    return await writer.finish(chapters);
+  } catch (error) {
+    writer.abort();
+    // fetch rejects with its own AbortError when cancelled mid-request
+    throw signal.aborted ? new ExportCancelledError() : error;
+  }
+}
@@ -0,0 +1,30 @@
+// src/export/audioWriter.ts
+
+/**
+ * A container format being filled with rendered speech
+ */
+
+export interface Chapter {
+  start: number;   // seconds from the beginning of the file
+  title: string;
+}
+
+export interface AudioWriter {
+  readonly sampleRate: number;   // rate `write` expects
+  readonly mimeType: string;
+
+  /**
+   * Append mono samples in [-1, 1]
+   */
+  write(samples: Float32Array): Promise<void>;
+
+  /**
+   * Close the file, marking each chapter
+   */
+  finish(chapters: Chapter[]): Promise<Blob>;
+
+  /**
+   * Throw away what was written so far
+   */
+  abort(): void;
+}
@@ -0,0 +1,9 @@
+// src/export/fileName.ts
+
+/**
+ * "Funny thread: part 2?" -> "Funny thread part 2"
+ */
+export function exportFileName(title: string, extension: string): string {
+  const name = title.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, ' ').trim().slice(0, 100);
+  return `${name || 'thread'}.${extension}`;
+}
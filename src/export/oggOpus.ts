@@ -0,0 +1,262 @@
+// src/export/oggOpus.ts
+
+import { AudioWriter, Chapter } from './audioWriter';
+
+/**
+ * Opus in an Ogg container (RFC 7845), encoded with WebCodecs. Chapters are
+ * written as CHAPTERxxx / CHAPTERxxxNAME comments in the OpusTags header, the
+ * convention podcast players read from Ogg files.
+ */
+
+const OPUS_SAMPLE_RATE = 48000;
+const BITRATE = 48000;
+const DEFAULT_PRE_SKIP = 312;        // libopus lookahead at 48 kHz
+const PACKETS_PER_PAGE = 50;         // one second of 20 ms packets, so players can seek finely
+const MAX_QUEUED_FRAMES = 8;
+
+const HEADER_FLAGS = { continued: 0x01, first: 0x02, last: 0x04 };
+
+const encoder = new TextEncoder();
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Ogg's CRC-32: polynomial 0x04c11db7, unreflected, no final xor
+ */
+function oggCrc(data: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ data[i]) & 0xff]) >>> 0;
+  }
+  return crc;
+}
+
+/**
+ * Segment sizes for a packet: 255s followed by the remainder (possibly 0)
+ */
+function lacing(length: number): number[] {
+  const values: number[] = new Array(Math.floor(length / 255)).fill(255);
+  values.push(length % 255);
+  return values;
+}
+
+function formatTimestamp(seconds: number): string {
+  const ms = Math.round(seconds * 1000);
+  const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+}
+
+function opusHead(preSkip: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(encoder.encode('OpusHead'), 0);
+  head[8] = 1;                                   // version
+  head[9] = 1;                                   // mono
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, OPUS_SAMPLE_RATE, true);    // input rate, informational
+  view.setInt16(16, 0, true);                    // output gain
+  head[18] = 0;                                  // channel mapping family
+  return head;
+}
+
+function opusTags(title: string, chapters: Chapter[]): Uint8Array {
+  const comments = title ? [`TITLE=${title}`] : [];
+  chapters.forEach((chapter, i) => {
+    const key = `CHAPTER${String(i + 1).padStart(3, '0')}`;
+    comments.push(`${key}=${formatTimestamp(chapter.start)}`, `${key}NAME=${chapter.title}`);
+  });
+
+  const vendor = encoder.encode('Reddit Out Loud');
+  const encoded = comments.map(comment => encoder.encode(comment));
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4 + encoded.reduce((size, c) => size + 4 + c.length, 0));
+  const view = new DataView(tags.buffer);
+
+  tags.set(encoder.encode('OpusTags'), 0);
+  view.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  let offset = 12 + vendor.length;
+  view.setUint32(offset, encoded.length, true);
+  offset += 4;
+  encoded.forEach(comment => {
+    view.setUint32(offset, comment.length, true);
+    tags.set(comment, offset + 4);
+    offset += 4 + comment.length;
+  });
+  return tags;
+}
+
+/**
+ * Pre-skip from the OpusHead the encoder describes itself with, when it does
+ */
+function readPreSkip(description: AllowSharedBufferSource | undefined): number | null {
+  if (!description) return null;
+  const bytes = ArrayBuffer.isView(description)
+    ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+    : new Uint8Array(description);
+  if (bytes.length < 19 || new TextDecoder().decode(bytes.subarray(0, 8)) !== 'OpusHead') return null;
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint16(10, true);
+}
+
+interface OpusPacket {
+  data: Uint8Array;
+  samples: number;
+}
+
+export class OggOpusWriter implements AudioWriter {
+  readonly sampleRate = OPUS_SAMPLE_RATE;
+  readonly mimeType = 'audio/ogg';
+  private encoder: AudioEncoder;
+  private packets: OpusPacket[] = [];
+  private preSkip = DEFAULT_PRE_SKIP;
+  private inputSamples = 0;
+  private error: Error | null = null;
+  private pages: Uint8Array<ArrayBuffer>[] = [];
+  private sequence = 0;
+  private serial = Math.floor(Math.random() * 0xffffffff);
+
+  private constructor(private title: string) {
+    this.encoder = new AudioEncoder({
+      output: (chunk, metadata) => {
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        const samples = chunk.duration ? Math.round(chunk.duration * OPUS_SAMPLE_RATE / 1e6) : 960;
+        this.packets.push({ data, samples });
+        this.preSkip = readPreSkip(metadata?.decoderConfig?.description) ?? this.preSkip;
+      },
+      error: (error) => {
+        this.error = error;
+      }
+    });
+  }
+
+  static async create(title: string): Promise<OggOpusWriter> {
+    const config: AudioEncoderConfig = {
+      codec: 'opus',
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfChannels: 1,
+      bitrate: BITRATE
+    };
+    if (typeof AudioEncoder === 'undefined' || !(await AudioEncoder.isConfigSupported(config)).supported) {
+      throw new Error('This browser cannot encode Opus audio; export as WAV instead');
+    }
+
+    const writer = new OggOpusWriter(title);
+    writer.encoder.configure(config);
+    return writer;
+  }
+
+  async write(samples: Float32Array) {
+    if (this.error) throw this.error;
+
+    const frame = new AudioData({
+      format: 'f32',
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfFrames: samples.length,
+      numberOfChannels: 1,
+      timestamp: Math.round(this.inputSamples * 1e6 / OPUS_SAMPLE_RATE),
+      data: samples as Float32Array<ArrayBuffer>
+    });
+    this.encoder.encode(frame);
+    frame.close();
+    this.inputSamples += samples.length;
+
+    // Don't let a long thread queue up faster than it encodes
+    while (this.encoder.encodeQueueSize > MAX_QUEUED_FRAMES) {
+      await new Promise(resolve => this.encoder.addEventListener('dequeue', resolve, { once: true }));
+    }
+  }
+
+  async finish(chapters: Chapter[]): Promise<Blob> {
+    await this.encoder.flush();
+    this.encoder.close();
+    if (this.error) throw this.error;
+
+    this.writeHeaderPacket(opusHead(this.preSkip), HEADER_FLAGS.first);
+    this.writeHeaderPacket(opusTags(this.title, chapters), 0);
+    this.writeAudioPages();
+
+    const blob = new Blob(this.pages, { type: this.mimeType });
+    this.pages = [];
+    this.packets = [];
+    return blob;
+  }
+
+  abort() {
+    if (this.encoder.state !== 'closed') this.encoder.close();
+    this.packets = [];
+    this.pages = [];
+  }
+
+  /**
+   * Header packets start on their own page and may run over several
+   */
+  private writeHeaderPacket(packet: Uint8Array, flags: number) {
+    const segments = lacing(packet.length);
+    let offset = 0;
+    for (let start = 0; start < segments.length; start += 255) {
+      const pageSegments = segments.slice(start, start + 255);
+      const size = pageSegments.reduce((total, segment) => total + segment, 0);
+      const pageFlags = start === 0 ? flags : HEADER_FLAGS.continued;
+      this.writePage(pageSegments, [packet.subarray(offset, offset + size)], pageFlags, 0);
+      offset += size;
+    }
+  }
+
+  private writeAudioPages() {
+    // Granule positions count output samples, including the pre-skip
+    const end = this.preSkip + this.inputSamples;
+    let granule = this.preSkip;
+    let segments: number[] = [];
+    let data: Uint8Array[] = [];
+
+    this.packets.forEach(packet => {
+      const packetSegments = lacing(packet.data.length);
+      if (data.length > 0 && (data.length >= PACKETS_PER_PAGE || segments.length + packetSegments.length > 255)) {
+        this.writePage(segments, data, 0, granule);
+        segments = [];
+        data = [];
+      }
+      segments.push(...packetSegments);
+      data.push(packet.data);
+      granule += packet.samples;
+    });
+
+    // The last page's granule trims the encoder's padding off the end
+    this.writePage(segments, data, HEADER_FLAGS.last, Math.min(granule, end));
+  }
+
+  private writePage(segments: number[], data: Uint8Array[], flags: number, granule: number) {
+    const bodySize = data.reduce((size, part) => size + part.length, 0);
+    const page = new Uint8Array(27 + segments.length + bodySize);
+    const view = new DataView(page.buffer);
+
+    page.set(encoder.encode('OggS'), 0);
+    page[4] = 0;                                              // version
+    page[5] = flags;
+    view.setUint32(6, granule % 0x100000000, true);
+    view.setUint32(10, Math.floor(granule / 0x100000000), true);
+    view.setUint32(14, this.serial, true);
+    view.setUint32(18, this.sequence++, true);
+    page[26] = segments.length;
+    page.set(segments, 27);
+
+    let offset = 27 + segments.length;
+    data.forEach(part => {
+      page.set(part, offset);
+      offset += part.length;
+    });
+
+    view.setUint32(22, oggCrc(page), true);
+    this.pages.push(page);
+  }
+}
@@ -0,0 +1,148 @@
+// src/export/transcript.ts
+
+import { ContentType } from '../types';
+import { ItemScript } from '../playback/playback';
+import { CommentSummary } from '../messaging/protocol';
+import { ITEM_GAP, SENTENCE_GAP } from './audioExport';
+
+/**
+ * Text exports of a thread, built from the engine's script so they hold exactly
+ * what playback reads: filtered comments with normalized text. Markdown quotes
+ * replies inside their parents, JSON lists comments in the extracted shape, and
+ * SSML keeps each sentence's voice and the pauses between them.
+ */
+
+export type TranscriptFormat = 'markdown' | 'json' | 'ssml';
+
+export interface TranscriptSource {
+  title: string;
+  permalink: string;
+  locale: string;                 // the thread's voice locale
+  script: ItemScript[];
+  comments: CommentSummary[];     // what the page extracted, for each comment's details
+}
+
+export interface TranscriptFile {
+  content: string;
+  mimeType: string;
+  extension: string;
+}
+
+/**
+ * Comments in reading order with their spoken text, falling back to what the
+ * engine knows about a comment the page no longer lists
+ */
+function spokenComments(source: TranscriptSource): CommentSummary[] {
+  const byId = new Map(source.comments.map(comment => [comment.id, comment]));
+
+  return source.script
+    .filter(({ item }) => item.type === 'comment')
+    .map(({ item, text }) => {
+      const comment = item.id ? byId.get(item.id) : undefined;
+      return {
+        id: item.id || '',
+        text,
+        author: item.author ?? null,
+        depth: item.depth || 0,
+        permalink: comment?.permalink || '',
+        score: comment?.score ?? null,
+        createdAt: comment?.createdAt ?? null,
+        isOp: comment?.isOp ?? false,
+        links: comment?.links || []
+      };
+    });
+}
+
+function postText(source: TranscriptSource, type: ContentType): string {
+  return source.script.find(({ item }) => item.type === type)?.text || '';
+}
+
+function quote(text: string, depth: number): string {
+  const prefix = '>'.repeat(depth + 1);
+  return text.split('\n').map(line => (line.trim() ? `${prefix} ${line}` : prefix)).join('\n');
+}
+
+function commentHeading(comment: CommentSummary): string {
+  const details = [`**u/${comment.author || 'deleted'}**${comment.isOp ? ' (OP)' : ''}`];
+  if (comment.score !== null) details.push(`${comment.score} points`);
+  if (comment.createdAt !== null) details.push(new Date(comment.createdAt).toISOString().slice(0, 10));
+  if (comment.permalink) details.push(`[link](${comment.permalink})`);
+  return details.join(' · ');
+}
+
+function toMarkdown(source: TranscriptSource): string {
+  const title = postText(source, 'title') || source.title;
+  const body = postText(source, 'body');
+
+  const sections = [`# ${title || 'Untitled thread'}`];
+  if (source.permalink) sections.push(source.permalink);
+  if (body) sections.push(body);
+
+  // A reply continues its ancestors' quotes, so it renders inside its parent
+  const thread = spokenComments(source).map((comment, i) => {
+    const block = quote(`${commentHeading(comment)}\n\n${comment.text}`, comment.depth);
+    if (i === 0) return block;
+    return comment.depth > 0 ? `${'>'.repeat(comment.depth)}\n${block}` : `\n${block}`;
+  });
+  if (thread.length > 0) sections.push(thread.join('\n'));
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+function toJson(source: TranscriptSource): string {
+  const transcript = {
+    title: postText(source, 'title') || source.title,
+    permalink: source.permalink,
+    body: postText(source, 'body'),
+    comments: spokenComments(source)
+  };
+  return `${JSON.stringify(transcript, null, 2)}\n`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function breakTag(seconds: number): string {
+  return `<break time="${Math.round(seconds * 1000)}ms"/>`;
+}
+
+function toSsml(source: TranscriptSource): string {
+  const paragraphs = source.script.filter(({ utterances }) => utterances.length > 0).map(({ utterances }) => {
+    const sentences = utterances.map(utterance => {
+      let sentence = `<s>${escapeXml(utterance.text)}</s>`;
+      if (utterance.lang && utterance.lang !== source.locale) {
+        sentence = `<lang xml:lang="${escapeXml(utterance.lang)}">${sentence}</lang>`;
+      }
+      if (utterance.voice) {
+        sentence = `<voice name="${escapeXml(utterance.voice.name)}">${sentence}</voice>`;
+      }
+      return `    ${sentence}`;
+    });
+    return `  <p>\n${sentences.join(`\n    ${breakTag(SENTENCE_GAP)}\n`)}\n  </p>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<speak version="1.1" xmlns="http://www.w3.org/2001/10/synthesis" xml:lang="${escapeXml(source.locale)}">`,
+    paragraphs.join(`\n  ${breakTag(ITEM_GAP)}\n`),
+    '</speak>',
+    ''
+  ].join('\n');
+}
+
+export function buildTranscript(format: TranscriptFormat, source: TranscriptSource): TranscriptFile {
+  switch (format) {
+    case 'markdown':
+      return { content: toMarkdown(source), mimeType: 'text/markdown', extension: 'md' };
+    case 'json':
+      return { content: toJson(source), mimeType: 'application/json', extension: 'json' };
+    case 'ssml':
+      return { content: toSsml(source), mimeType: 'application/ssml+xml', extension: 'ssml' };
+  }
+}
@@ -0,0 +1,106 @@
+// src/export/wav.ts
+
+import { AudioWriter, Chapter } from './audioWriter';
+
+/**
+ * 16-bit mono PCM WAV. Chapters become cue points with `labl` names in a
+ * LIST/adtl chunk, which audio editors and most podcast tools show as markers.
+ */
+
+// Piper's native rate; plenty for speech and a quarter of the size of 48 kHz
+const WAV_SAMPLE_RATE = 22050;
+
+const encoder = new TextEncoder();
+
+function chunkHeader(id: string, size: number): Uint8Array<ArrayBuffer> {
+  const header = new Uint8Array(8);
+  header.set(encoder.encode(id), 0);
+  new DataView(header.buffer).setUint32(4, size, true);
+  return header;
+}
+
+function cueChunk(chapters: Chapter[], sampleRate: number): Uint8Array<ArrayBuffer> {
+  const body = new DataView(new ArrayBuffer(4 + chapters.length * 24));
+  body.setUint32(0, chapters.length, true);
+  chapters.forEach((chapter, i) => {
+    const offset = 4 + i * 24;
+    const position = Math.round(chapter.start * sampleRate);
+    body.setUint32(offset, i + 1, true);               // cue point id
+    body.setUint32(offset + 4, position, true);        // position in play order
+    new Uint8Array(body.buffer).set(encoder.encode('data'), offset + 8);
+    body.setUint32(offset + 12, 0, true);              // chunk start
+    body.setUint32(offset + 16, 0, true);              // block start
+    body.setUint32(offset + 20, position, true);       // sample offset
+  });
+  return concat([chunkHeader('cue ', body.byteLength), new Uint8Array(body.buffer)]);
+}
+
+function labelChunk(chapters: Chapter[]): Uint8Array<ArrayBuffer> {
+  const labels = chapters.map((chapter, i) => {
+    const text = encoder.encode(`${chapter.title}\0`);
+    const body = new Uint8Array(4 + text.length + (text.length % 2));   // chunks are word-aligned
+    new DataView(body.buffer).setUint32(0, i + 1, true);
+    body.set(text, 4);
+    return concat([chunkHeader('labl', 4 + text.length), body]);
+  });
+  const list = concat([encoder.encode('adtl'), ...labels]);
+  return concat([chunkHeader('LIST', list.length), list]);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+export class WavWriter implements AudioWriter {
+  readonly sampleRate = WAV_SAMPLE_RATE;
+  readonly mimeType = 'audio/wav';
+  private parts: Int16Array<ArrayBuffer>[] = [];
+  private samples = 0;
+
+  async write(samples: Float32Array) {
+    const pcm = new Int16Array(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+      const sample = Math.max(-1, Math.min(1, samples[i]));
+      pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+    }
+    this.parts.push(pcm);
+    this.samples += pcm.length;
+  }
+
+  async finish(chapters: Chapter[]): Promise<Blob> {
+    const format = new DataView(new ArrayBuffer(16));
+    format.setUint16(0, 1, true);                          // PCM
+    format.setUint16(2, 1, true);                          // mono
+    format.setUint32(4, this.sampleRate, true);
+    format.setUint32(8, this.sampleRate * 2, true);        // byte rate
+    format.setUint16(12, 2, true);                         // block align
+    format.setUint16(14, 16, true);                        // bits per sample
+
+    const markers = chapters.length > 0
+      ? concat([cueChunk(chapters, this.sampleRate), labelChunk(chapters)])
+      : new Uint8Array(0);
+    const dataSize = this.samples * 2;
+    const header = concat([
+      chunkHeader('RIFF', 4 + 24 + markers.length + 8 + dataSize),
+      encoder.encode('WAVE'),
+      chunkHeader('fmt ', 16),
+      new Uint8Array(format.buffer),
+      markers,
+      chunkHeader('data', dataSize)
+    ]);
+
+    const blob = new Blob([header, ...this.parts], { type: this.mimeType });
+    this.parts = [];
+    return blob;
+  }
+
+  abort() {
+    this.parts = [];
+  }
+}
@@ -0,0 +1,362 @@
+// src/extraction/redditJson.ts
+
+import { CommentData, ExpansionStrategy, LinkMode } from '../types';
+import { processLinks } from '../utils/textFilters';
+import { selectExpansionTargets } from '../utils/expansionStrategy';
+
+/**
+ * Reddit JSON extraction backend.
+ * Reads a thread from its `.json` representation and resolves `more` stubs through
+ * `/api/morechildren`, producing the same CommentData list as DOM scraping without
+ * touching the page or clicking any buttons.
+ */
+
+// ---------------------------------------------------------------------------
+// Reddit API shapes (only the fields we read)
+// ---------------------------------------------------------------------------
+
+interface RedditListing {
+  kind: 'Listing';
+  data: { children: RedditThing[] };
+}
+
+type RedditThing =
+  | { kind: 't1'; data: RedditCommentData }
+  | { kind: 't3'; data: RedditPostData }
+  | { kind: 'more'; data: RedditMoreData };
+
+interface RedditCommentData {
+  id: string;
+  name: string;
+  parent_id: string;
+  author: string;
+  body: string;
+  depth?: number;
+  permalink: string;
+  score?: number;
+  score_hidden?: boolean;
+  created_utc?: number;
+  is_submitter?: boolean;
+  replies: RedditListing | '';
+}
+
+interface RedditPostData {
+  id: string;
+  name: string;
+  title: string;
+  selftext: string;
+  permalink: string;
+  author: string;
+}
+
+interface RedditMoreData {
+  id: string;
+  name: string;
+  parent_id: string;
+  depth: number;
+  count: number;
+  children: string[];
+}
+
+interface MoreChildrenResponse {
+  json: {
+    errors: unknown[];
+    data?: { things: RedditThing[] };
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Sources
+// ---------------------------------------------------------------------------
+
+/**
+ * Where thread JSON comes from - the live site, or saved fixtures for offline runs
+ */
+export interface RedditJsonSource {
+  getThread(permalink: string, params: { depth: number; limit: number }): Promise<unknown>;
+  getMoreChildren(linkId: string, childIds: string[]): Promise<unknown>;
+}
+
+async function fetchJson(url: string): Promise<unknown> {
+  const response = await fetch(url, { credentials: 'include' });
+  if (!response.ok) {
+    throw new Error(`Reddit JSON request failed (${response.status}): ${url}`);
+  }
+  return response.json();
+}
+
+/**
+ * Live source using the public JSON endpoints on the current origin
+ */
+export function createFetchSource(origin: string = location.origin): RedditJsonSource {
+  return {
+    getThread: (permalink, { depth, limit }) => {
+      const path = permalink.replace(/\/+$/, '');
+      return fetchJson(`${origin}${path}.json?raw_json=1&depth=${depth}&limit=${limit}`);
+    },
+    getMoreChildren: (linkId, childIds) => {
+      const children = encodeURIComponent(childIds.join(','));
+      return fetchJson(
+        `${origin}/api/morechildren.json?api_type=json&raw_json=1&limit_children=false&link_id=${linkId}&children=${children}`
+      );
+    }
+  };
+}
+
+/**
+ * Offline source backed by saved responses.
+ * `moreChildren` is keyed by the comma-joined child ids of each request.
+ */
+export function createFixtureSource(thread: unknown, moreChildren: Record<string, unknown> = {}): RedditJsonSource {
+  return {
+    getThread: async () => thread,
+    getMoreChildren: async (_linkId, childIds) => {
+      const key = childIds.join(',');
+      if (!(key in moreChildren)) {
+        throw new Error(`No morechildren fixture for: ${key}`);
+      }
+      return moreChildren[key];
+    }
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Thread tree
+// ---------------------------------------------------------------------------
+
+interface ThreadNode {
+  comment: RedditCommentData | null;
+  more: RedditMoreData | null;
+  depth: number;
+  children: ThreadNode[];
+}
+
+interface MoreStub {
+  node: ThreadNode;
+  siblings: ThreadNode[];
+  depth: number;
+}
+
+export interface RedditJsonOptions {
+  maxDepth: number;
+  maxTopLevel: number;
+  maxTotal: number;
+  strategy: ExpansionStrategy;
+  linkMode: LinkMode;
+  shouldStop?: () => boolean;
+  onProgress?: (commentCount: number) => void;
+}
+
+export interface RedditJsonThread {
+  title: string;
+  body: string;
+  author: string | null;
+  comments: CommentData[];
+}
+
+// morechildren accepts at most 100 ids per request
+const MORE_CHILDREN_BATCH = 100;
+const MAX_MORE_REQUESTS = 20;
+
+function buildNodes(things: RedditThing[], depth: number): ThreadNode[] {
+  const nodes: ThreadNode[] = [];
+
+  things.forEach(thing => {
+    if (thing.kind === 't1') {
+      const commentDepth = thing.data.depth !== undefined ? thing.data.depth : depth;
+      const replies = thing.data.replies ? thing.data.replies.data.children : [];
+      nodes.push({
+        comment: thing.data,
+        more: null,
+        depth: commentDepth,
+        children: buildNodes(replies, commentDepth + 1)
+      });
+    } else if (thing.kind === 'more') {
+      nodes.push({
+        comment: null,
+        more: thing.data,
+        depth: thing.data.depth !== undefined ? thing.data.depth : depth,
+        children: []
+      });
+    }
+  });
+
+  return nodes;
+}
+
+function collectStubs(nodes: ThreadNode[], stubs: MoreStub[] = []): MoreStub[] {
+  nodes.forEach(node => {
+    // "Continue this thread" stubs have no children ids and can't be loaded via morechildren
+    if (node.more && node.more.children.length > 0) {
+      stubs.push({ node, siblings: nodes, depth: node.depth });
+    }
+    collectStubs(node.children, stubs);
+  });
+  return stubs;
+}
+
+function countComments(nodes: ThreadNode[]): number {
+  return nodes.reduce((total, node) => total + (node.comment ? 1 : 0) + countComments(node.children), 0);
+}
+
+/**
+ * Splice morechildren results into the tree where the stub was.
+ * Results come back flat; each thing is placed under its parent_id.
+ */
+function insertMoreChildren(stub: MoreStub, things: RedditThing[]) {
+  const byName = new Map<string, ThreadNode>();
+  const topLevel: ThreadNode[] = [];
+
+  things.forEach(thing => {
+    if (thing.kind !== 't1' && thing.kind !== 'more') return;
+
+    const node: ThreadNode = {
+      comment: thing.kind === 't1' ? thing.data : null,
+      more: thing.kind === 'more' ? thing.data : null,
+      depth: thing.data.depth !== undefined ? thing.data.depth : stub.depth,
+      children: []
+    };
+
+    // Direct children of the stub's parent (and any orphans) take the stub's position
+    const parent = byName.get(thing.data.parent_id);
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      topLevel.push(node);
+    }
+
+    byName.set(thing.data.name, node);
+  });
+
+  const position = stub.siblings.indexOf(stub.node);
+  if (position < 0) return;
+
+  // Keep the stub if it still has unrequested children
+  const remaining = stub.node.more!.children.length > 0 ? [stub.node] : [];
+  stub.siblings.splice(position, 1, ...topLevel, ...remaining);
+}
+
+/**
+ * Convert Reddit markdown to plain speakable text
+ */
+function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/>!(.*?)!</g, '$1')            // spoilers
+    .replace(/^\s{0,3}>\s?/gm, '')           // block quotes
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')      // headings
+    .replace(/^\s*[-*+]\s+/gm, '')           // bullets
+    .replace(/(\*\*|__)(.*?)\1/g, '$2')      // bold
+    .replace(/(^|[^\w*])([*_])(?!\s)(.+?)(?<!\s)\2(?![\w*])/g, '$1$3')  // italics
+    .replace(/~~(.*?)~~/g, '$1')             // strikethrough
+    .replace(/`{1,3}([^`]*)`{1,3}/g, '$1')   // code
+    .replace(/\^\(([^)]*)\)/g, '$1')         // superscript ^(text)
+    .replace(/\^(\S+)/g, '$1')               // superscript ^word
+    .replace(/&nbsp;/g, ' ')
+    .trim();
+}
+
+function flattenNodes(nodes: ThreadNode[], output: CommentData[], linkMode: LinkMode) {
+  nodes.forEach(node => {
+    const data = node.comment;
+    if (data) {
+      const { text, links } = processLinks(markdownToText(data.body || ''), linkMode);
+      const isRemoved = text === '[removed]' || text === '[deleted]';
+
+      if (text && !isRemoved) {
+        output.push({
+          id: data.name,
+          text,
+          author: data.author || null,
+          depth: node.depth,
+          permalink: data.permalink,
+          // Fresh comments report a placeholder score while it is hidden
+          score: data.score_hidden || typeof data.score !== 'number' ? null : data.score,
+          createdAt: typeof data.created_utc === 'number' ? data.created_utc * 1000 : null,
+          isOp: !!data.is_submitter,
+          links,
+          element: null
+        });
+      }
+    }
+    flattenNodes(node.children, output, linkMode);
+  });
+}
+
+function isListingPair(json: unknown): json is [RedditListing, RedditListing] {
+  return Array.isArray(json) && json.length >= 2 &&
+    json[0]?.kind === 'Listing' && json[1]?.kind === 'Listing';
+}
+
+/**
+ * Extract post and comments from a thread's JSON, resolving `more` stubs within the limits
+ *
+ * @param permalink - Thread path, e.g. /r/sub/comments/abc123/title/
+ * @param source - Live fetch source or saved fixtures
+ * @param options - Depth/count limits, strategy and stop/progress hooks
+ */
+export async function extractThreadFromJson(
+  permalink: string,
+  source: RedditJsonSource,
+  options: RedditJsonOptions
+): Promise<RedditJsonThread> {
+  const { maxDepth, maxTopLevel, maxTotal, strategy } = options;
+  console.log(`🧾 Extracting thread from JSON (depth: ${maxDepth}, topLevel: ${maxTopLevel}, total: ${maxTotal}, strategy: ${strategy})...`);
+
+  const json = await source.getThread(permalink, { depth: maxDepth, limit: maxTotal });
+  if (!isListingPair(json)) {
+    throw new Error('Unexpected thread JSON: expected [post listing, comment listing]');
+  }
+
+  const postThing = json[0].data.children.find(thing => thing.kind === 't3');
+  const post = postThing && postThing.kind === 't3' ? postThing.data : null;
+  const roots = buildNodes(json[1].data.children, 0);
+
+  let requests = 0;
+  while (requests < MAX_MORE_REQUESTS && !options.shouldStop?.()) {
+    const total = countComments(roots);
+    options.onProgress?.(total);
+
+    if (total >= maxTotal) {
+      console.log(`✅ Reached max total comments: ${maxTotal}`);
+      break;
+    }
+
+    const topLevelCount = roots.filter(node => node.comment).length;
+    const [stub] = selectExpansionTargets(collectStubs(roots), strategy, {
+      targetDepth: maxDepth,
+      maxTopLevel,
+      topLevelCount
+    });
+
+    if (!stub) {
+      console.log('✅ No more children to load');
+      break;
+    }
+
+    const more = stub.node.more!;
+    const batch = more.children.slice(0, Math.min(MORE_CHILDREN_BATCH, maxTotal - total));
+    more.children = more.children.slice(batch.length);
+
+    console.log(`   Loading ${batch.length} more children at depth ${stub.depth}`);
+    const response = await source.getMoreChildren(post ? post.name : '', batch) as MoreChildrenResponse;
+    insertMoreChildren(stub, response?.json?.data?.things || []);
+    requests++;
+  }
+
+  if (requests >= MAX_MORE_REQUESTS) {
+    console.warn('⚠️  Stopped after max morechildren requests');
+  }
+
+  const comments: CommentData[] = [];
+  flattenNodes(roots, comments, options.linkMode);
+  options.onProgress?.(comments.length);
+
+  console.log(`🎉 JSON extraction complete! Total: ${comments.length}`);
+
+  return {
+    title: processLinks(post?.title || '', options.linkMode).text,
+    body: processLinks(markdownToText(post?.selftext || ''), options.linkMode).text,
+    author: post?.author || null,
+    comments
+  };
+}
@@ -0,0 +1,630 @@
+// src/messaging/protocol.ts
+
+import { CommentData, ContentItem, ContentType, ExpansionStrategy, ExtractionMode, LinkMode } from '../types';
+import { ItemScript, PlaybackState, WordBoundary } from '../playback/playback';
+import { AnnouncementSettings } from '../playback/announcements';
+import { NormalizationSettings } from '../playback/normalization';
+import { VoicePins } from '../playback/voiceAssignment';
+import { LanguageSettings } from '../playback/languageDetection';
+import { TtsSettings, TtsVoice } from '../playback/backends';
+import { AudioExportFormat, AudioExportProgress } from '../export/audioExport';
+import { AuthorRule } from '../utils/authorFilters';
+import { ContentRule } from '../utils/contentFilters';
+
+/**
+ * Typed, versioned message protocol shared by the popup, background worker,
+ * offscreen playback document and content script.
+ * Every request and response carries PROTOCOL_VERSION so a stale popup talking to a newer
+ * content script (or vice versa) fails loudly instead of reading undefined fields.
+ */
+
+export const PROTOCOL_VERSION = 2;
+
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Payloads
+// ---------------------------------------------------------------------------
+
+type EmptyPayload = {};
+
+/**
+ * A comment without its DOM element, which can't cross a message
+ */
+export type CommentSummary = Omit<CommentData, 'element'>;
+
+export interface ExtractOptions {
+  maxDepth?: number;
+  maxTopLevelComments?: number;
+  maxTotalComments?: number;
+  expansionStrategy?: ExpansionStrategy;
+  extractionMode?: ExtractionMode;
+  voiceLocale?: string;
+  selectedVoices?: string[];
+  linkMode?: LinkMode;
+  minScore?: number;              // omitted to keep every comment
+  minScoreDropsReplies?: boolean;
+  sortByScore?: boolean;
+  authorRules?: AuthorRule[];
+  contentRules?: ContentRule[];
+}
+
+/**
+ * Where the listener left off last time this thread was read.
+ * `exact` is false when the saved item is gone and the nearest item was picked instead.
+ */
+export interface ResumePoint {
+  index: number;
+  chunk: number;
+  type: ContentType;
+  author: string | null;
+  exact: boolean;
+}
+
+export interface ExtractResult {
+  count: number;
+  totalItems: number;
+  hasTitle: boolean;
+  hasBody: boolean;
+  title: string;
+  maxDepth: number;
+  maxTopLevelComments: number;
+  maxTotalComments: number;
+  expansionStrategy: ExpansionStrategy;
+  extractionMode: ExtractionMode;
+  voiceLocale: string;
+  comments: CommentSummary[];
+  resumePoint: ResumePoint | null;
+}
+
+/**
+ * What the content script extracted from its tab
+ */
+export interface ContentState {
+  permalink: string;
+  totalComments: number;
+  totalItems: number;
+  hasTitle: boolean;
+  hasBody: boolean;
+  title: string;
+  maxDepth: number;
+  maxTopLevelComments: number;
+  maxTotalComments: number;
+  expansionStrategy: ExpansionStrategy;
+  extractionMode: ExtractionMode;
+  isExtracting: boolean;
+  isLoadingMore: boolean;                       // still expanding the page while the first comments are read
+  extractionProgress: number;
+  comments: CommentSummary[];
+  authorFilterCounts: Record<string, number>;   // author rule id -> comments it removed
+  contentFilterCounts: Record<string, number>;  // content rule id -> comments it skipped or masked
+}
+
+/**
+ * The thread the background worker is playing, which may outlive its tab
+ */
+export interface SessionState extends PlaybackState {
+  permalink: string;
+  title: string;
+  tabId: number | null;
+  resumePoint: ResumePoint | null;
+  audioExport: AudioExportProgress | null;   // the latest audio export of this thread
+}
+
+// ---------------------------------------------------------------------------
+// Content script (popup/background -> tab)
+// ---------------------------------------------------------------------------
+
+export interface ContentRequestMap {
+  extractComments: ExtractOptions;
+  stopExtraction: EmptyPayload;
+  getExtractionProgress: EmptyPayload;
+  getState: EmptyPayload;
+  loadSession: EmptyPayload;
+  highlight: { permalink: string; item: ContentItem };
+  highlightWord: { permalink: string; item: ContentItem; boundary: WordBoundary };
+  clearHighlight: EmptyPayload;
+  cleanup: EmptyPayload;
+}
+
+export interface ContentResponseMap {
+  extractComments: ExtractResult;
+  stopExtraction: { stopped: boolean };
+  getExtractionProgress: { isExtracting: boolean; progress: number; canStop: boolean };
+  getState: ContentState;
+  loadSession: { loaded: boolean; resumePoint: ResumePoint | null };
+  highlight: EmptyPayload;
+  highlightWord: EmptyPayload;
+  clearHighlight: EmptyPayload;
+  cleanup: EmptyPayload;
+}
+
+// ---------------------------------------------------------------------------
+// Background worker (popup/content/offscreen -> service worker)
+// ---------------------------------------------------------------------------
+
+export interface BackgroundRequestMap {
+  ping: EmptyPayload;
+
+  // Session setup from the content script. Without `replace` an active session
+  // for another thread keeps playing.
+  loadSession: {
+    replace: boolean;
+    permalink: string;
+    title: string;
+    community: string;
+    items: ContentItem[];
+    selectedVoices: string[];
+    voiceLocale: string;
+  };
+  // The same thread with comments the page loaded since; sent while it keeps loading
+  extendSession: { permalink: string; items: ContentItem[] };
+  getSession: EmptyPayload;
+
+  // Playback controls from the popup
+  play: EmptyPayload;
+  pause: EmptyPayload;
+  stop: EmptyPayload;
+  next: EmptyPayload;
+  previous: EmptyPayload;
+  nextThread: EmptyPayload;
+  skipReplies: EmptyPayload;
+  parent: EmptyPayload;
+  restartThread: EmptyPayload;
+  nextSentence: EmptyPayload;
+  previousSentence: EmptyPayload;
+  seek: { index: number };
+  resume: EmptyPayload;
+  dismissResume: EmptyPayload;
+  setSpeed: { speed: number };
+  toggleUniqueVoices: { enabled: boolean };
+  setVoiceLocale: { locale: string };
+  exportAudio: { format: AudioExportFormat };
+  cancelAudioExport: EmptyPayload;
+  getScript: EmptyPayload;
+  getItems: EmptyPayload;
+
+  // Engine events from the offscreen document
+  engineHighlight: { index: number };
+  engineHighlightWord: { index: number; boundary: WordBoundary };
+  engineClearHighlight: EmptyPayload;
+  engineChunkStart: { index: number; chunk: number };
+  engineFinished: EmptyPayload;
+  engineAudioExport: { progress: AudioExportProgress; url?: string };   // url of the finished file
+
+  // chrome.tts on behalf of the offscreen document, which can't call it.
+  // Events for utterance `id` come back as the offscreen "ttsEvent" action.
+  ttsGetVoices: EmptyPayload;
+  ttsSpeak: { id: number; text: string; voiceName?: string; lang: string; rate: number };
+  ttsStop: EmptyPayload;
+}
+
+export interface BackgroundResponseMap {
+  ping: { status: 'alive' };
+  loadSession: { loaded: boolean; resumePoint: ResumePoint | null };
+  extendSession: EmptyPayload;
+  getSession: { session: SessionState | null };
+  play: { isPlaying: boolean };
+  pause: { isPaused: boolean };
+  stop: EmptyPayload;
+  next: { currentIndex: number };
+  previous: { currentIndex: number };
+  nextThread: { currentIndex: number };
+  skipReplies: { currentIndex: number };
+  parent: { currentIndex: number };
+  restartThread: { currentIndex: number };
+  nextSentence: { currentIndex: number; currentChunk: number };
+  previousSentence: { currentIndex: number; currentChunk: number };
+  seek: { currentIndex: number };
+  resume: { currentIndex: number; currentChunk: number };
+  dismissResume: EmptyPayload;
+  setSpeed: EmptyPayload;
+  toggleUniqueVoices: { enabled: boolean };
+  setVoiceLocale: { voiceLocale: string };
+  exportAudio: EmptyPayload;
+  cancelAudioExport: EmptyPayload;
+  getScript: { script: ItemScript[]; voiceLocale: string };
+  getItems: { items: ContentItem[] };
+  engineHighlight: EmptyPayload;
+  engineHighlightWord: EmptyPayload;
+  engineClearHighlight: EmptyPayload;
+  engineChunkStart: EmptyPayload;
+  engineFinished: EmptyPayload;
+  engineAudioExport: EmptyPayload;
+  ttsGetVoices: { voices: TtsVoice[] };
+  ttsSpeak: EmptyPayload;
+  ttsStop: EmptyPayload;
+}
+
+// ---------------------------------------------------------------------------
+// Offscreen playback document (service worker -> offscreen)
+// ---------------------------------------------------------------------------
+
+export interface OffscreenRequestMap {
+  load: { items: ContentItem[]; title: string; community: string; selectedVoices: string[]; voiceLocale: string };
+  mergeItems: { items: ContentItem[] };
+  play: EmptyPayload;
+  pause: EmptyPayload;
+  stop: EmptyPayload;
+  next: EmptyPayload;
+  previous: EmptyPayload;
+  nextThread: EmptyPayload;
+  skipReplies: EmptyPayload;
+  parent: EmptyPayload;
+  restartThread: EmptyPayload;
+  nextSentence: EmptyPayload;
+  previousSentence: EmptyPayload;
+  seek: { index: number };
+  setPosition: { index: number; chunk: number };
+  setSpeed: { speed: number };
+  setUniqueVoices: { enabled: boolean };
+  setVoiceLocale: { locale: string };
+  setAnnouncements: { announcements: AnnouncementSettings };
+  setNormalization: { normalization: NormalizationSettings };
+  setVoicePins: { pins: VoicePins };
+  setLanguageSettings: { languages: LanguageSettings };
+  setTtsBackend: { tts: TtsSettings };
+  ttsEvent: { id: number; type: string; charIndex?: number; errorMessage?: string };
+  startAudioExport: { format: AudioExportFormat };
+  cancelAudioExport: EmptyPayload;
+  getScript: EmptyPayload;
+  getState: EmptyPayload;
+}
+
+/**
+ * Every reply carries the engine state; getScript adds how each item is read
+ */
+export type OffscreenResponseMap = {
+  [A in keyof OffscreenRequestMap]: A extends 'getScript' ? PlaybackState & { script: ItemScript[] } : PlaybackState;
+};
+
+// ---------------------------------------------------------------------------
+// Envelopes
+// ---------------------------------------------------------------------------
+
+export type RequestUnion<M> = { [A in keyof M]: { action: A } & M[A] }[keyof M];
+
+export type ContentRequest = RequestUnion<ContentRequestMap>;
+export type ContentAction = keyof ContentRequestMap;
+export type BackgroundRequest = RequestUnion<BackgroundRequestMap>;
+export type BackgroundAction = keyof BackgroundRequestMap;
+export type OffscreenAction = keyof OffscreenRequestMap;
+
+/**
+ * runtime.sendMessage reaches every extension page, so messages name the one meant to answer
+ */
+export type MessageTarget = 'background' | 'offscreen';
+
+export type Versioned<T> = T & { protocolVersion: number };
+
+export type SuccessResponse<T> = Versioned<T & { success: true }>;
+export type ErrorResponse = Versioned<{ success: false; error: string }>;
+export type ProtocolResponse<T> = SuccessResponse<T> | ErrorResponse;
+
+export type ContentResponse<A extends ContentAction> = SuccessResponse<ContentResponseMap[A]>;
+export type BackgroundResponse<A extends BackgroundAction> = SuccessResponse<BackgroundResponseMap[A]>;
+
+// ---------------------------------------------------------------------------
+// Runtime validation
+// ---------------------------------------------------------------------------
+
+type FieldSpec =
+  | { type: 'number' | 'string' | 'boolean' | 'string[]' | 'object' | 'object[]'; optional?: boolean }
+  | { oneOf: readonly string[]; optional?: boolean };
+
+/**
+ * One field spec per payload property - the mapped type keeps it in sync with the request map
+ */
+export type RequestSchema<M> = { [A in keyof M]: { [F in keyof M[A]]-?: FieldSpec } };
+
+const EXPANSION_STRATEGIES: readonly ExpansionStrategy[] = ['breadth', 'depth', 'balanced'];
+const EXTRACTION_MODES: readonly ExtractionMode[] = ['dom', 'json'];
+const LINK_MODES: readonly LinkMode[] = ['remove', 'domain', 'anchorAndDomain'];
+const AUDIO_EXPORT_FORMATS: readonly AudioExportFormat[] = ['wav', 'opus'];
+
+export const CONTENT_REQUEST_SCHEMA: RequestSchema<ContentRequestMap> = {
+  extractComments: {
+    maxDepth: { type: 'number', optional: true },
+    maxTopLevelComments: { type: 'number', optional: true },
+    maxTotalComments: { type: 'number', optional: true },
+    expansionStrategy: { oneOf: EXPANSION_STRATEGIES, optional: true },
+    extractionMode: { oneOf: EXTRACTION_MODES, optional: true },
+    voiceLocale: { type: 'string', optional: true },
+    selectedVoices: { type: 'string[]', optional: true },
+    linkMode: { oneOf: LINK_MODES, optional: true },
+    minScore: { type: 'number', optional: true },
+    minScoreDropsReplies: { type: 'boolean', optional: true },
+    sortByScore: { type: 'boolean', optional: true },
+    authorRules: { type: 'object[]', optional: true },
+    contentRules: { type: 'object[]', optional: true }
+  },
+  stopExtraction: {},
+  getExtractionProgress: {},
+  getState: {},
+  loadSession: {},
+  highlight: { permalink: { type: 'string' }, item: { type: 'object' } },
+  highlightWord: { permalink: { type: 'string' }, item: { type: 'object' }, boundary: { type: 'object' } },
+  clearHighlight: {},
+  cleanup: {}
+};
+
+export const BACKGROUND_REQUEST_SCHEMA: RequestSchema<BackgroundRequestMap> = {
+  ping: {},
+  loadSession: {
+    replace: { type: 'boolean' },
+    permalink: { type: 'string' },
+    title: { type: 'string' },
+    community: { type: 'string' },
+    items: { type: 'object[]' },
+    selectedVoices: { type: 'string[]' },
+    voiceLocale: { type: 'string' }
+  },
+  extendSession: { permalink: { type: 'string' }, items: { type: 'object[]' } },
+  getSession: {},
+  play: {},
+  pause: {},
+  stop: {},
+  next: {},
+  previous: {},
+  nextThread: {},
+  skipReplies: {},
+  parent: {},
+  restartThread: {},
+  nextSentence: {},
+  previousSentence: {},
+  seek: { index: { type: 'number' } },
+  resume: {},
+  dismissResume: {},
+  setSpeed: { speed: { type: 'number' } },
+  toggleUniqueVoices: { enabled: { type: 'boolean' } },
+  setVoiceLocale: { locale: { type: 'string' } },
+  exportAudio: { format: { oneOf: AUDIO_EXPORT_FORMATS } },
+  cancelAudioExport: {},
+  getScript: {},
+  getItems: {},
+  engineHighlight: { index: { type: 'number' } },
+  engineHighlightWord: { index: { type: 'number' }, boundary: { type: 'object' } },
+  engineClearHighlight: {},
+  engineChunkStart: { index: { type: 'number' }, chunk: { type: 'number' } },
+  engineFinished: {},
+  engineAudioExport: { progress: { type: 'object' }, url: { type: 'string', optional: true } },
+  ttsGetVoices: {},
+  ttsSpeak: {
+    id: { type: 'number' },
+    text: { type: 'string' },
+    voiceName: { type: 'string', optional: true },
+    lang: { type: 'string' },
+    rate: { type: 'number' }
+  },
+  ttsStop: {}
+};
+
+export const OFFSCREEN_REQUEST_SCHEMA: RequestSchema<OffscreenRequestMap> = {
+  load: {
+    items: { type: 'object[]' },
+    title: { type: 'string' },
+    community: { type: 'string' },
+    selectedVoices: { type: 'string[]' },
+    voiceLocale: { type: 'string' }
+  },
+  mergeItems: { items: { type: 'object[]' } },
+  play: {},
+  pause: {},
+  stop: {},
+  next: {},
+  previous: {},
+  nextThread: {},
+  skipReplies: {},
+  parent: {},
+  restartThread: {},
+  nextSentence: {},
+  previousSentence: {},
+  seek: { index: { type: 'number' } },
+  setPosition: { index: { type: 'number' }, chunk: { type: 'number' } },
+  setSpeed: { speed: { type: 'number' } },
+  setUniqueVoices: { enabled: { type: 'boolean' } },
+  setVoiceLocale: { locale: { type: 'string' } },
+  setAnnouncements: { announcements: { type: 'object' } },
+  setNormalization: { normalization: { type: 'object' } },
+  setVoicePins: { pins: { type: 'object' } },
+  setLanguageSettings: { languages: { type: 'object' } },
+  setTtsBackend: { tts: { type: 'object' } },
+  ttsEvent: {
+    id: { type: 'number' },
+    type: { type: 'string' },
+    charIndex: { type: 'number', optional: true },
+    errorMessage: { type: 'string', optional: true }
+  },
+  startAudioExport: { format: { oneOf: AUDIO_EXPORT_FORMATS } },
+  cancelAudioExport: {},
+  getScript: {},
+  getState: {}
+};
+
+function checkField(action: string, field: string, spec: FieldSpec, value: unknown) {
+  if (value === undefined) {
+    if (!spec.optional) {
+      throw new ProtocolError(`"${action}" is missing required field "${field}"`);
+    }
+    return;
+  }
+
+  let valid: boolean;
+  if ('oneOf' in spec) {
+    valid = typeof value === 'string' && spec.oneOf.includes(value);
+  } else if (spec.type === 'string[]') {
+    valid = Array.isArray(value) && value.every(v => typeof v === 'string');
+  } else if (spec.type === 'object') {
+    valid = typeof value === 'object' && value !== null && !Array.isArray(value);
+  } else if (spec.type === 'object[]') {
+    valid = Array.isArray(value) && value.every(v => typeof v === 'object' && v !== null);
+  } else if (spec.type === 'number') {
+    valid = typeof value === 'number' && Number.isFinite(value);
+  } else {
+    valid = typeof value === spec.type;
+  }
+
+  if (!valid) {
+    const expected = 'oneOf' in spec ? spec.oneOf.join(' | ') : spec.type;
+    throw new ProtocolError(`"${action}" field "${field}" must be ${expected}, got ${JSON.stringify(value)}`);
+  }
+}
+
+/**
+ * Check the version, action and payload of an incoming message.
+ * Throws ProtocolError on anything that doesn't match the schema.
+ */
+export function parseRequest<M>(schema: RequestSchema<M>, raw: unknown): RequestUnion<M> {
+  if (!raw || typeof raw !== 'object') {
+    throw new ProtocolError('Message must be an object');
+  }
+
+  const message = raw as Record<string, unknown>;
+
+  if (message.protocolVersion !== PROTOCOL_VERSION) {
+    throw new ProtocolError(
+      `Protocol version mismatch: expected ${PROTOCOL_VERSION}, got ${String(message.protocolVersion)}. Reload the extension and the page.`
+    );
+  }
+
+  const action = message.action;
+  if (typeof action !== 'string' || !Object.prototype.hasOwnProperty.call(schema, action)) {
+    throw new ProtocolError(`Unknown action: ${String(action)}`);
+  }
+
+  const fields = schema[action as keyof M] as Record<string, FieldSpec>;
+  Object.keys(fields).forEach(field => checkField(action, field, fields[field], message[field]));
+
+  return message as unknown as RequestUnion<M>;
+}
+
+/**
+ * Check the envelope of a reply and unwrap it. Throws ProtocolError on version mismatch or error replies.
+ */
+export function parseResponse<T>(raw: unknown): SuccessResponse<T> {
+  if (!raw || typeof raw !== 'object') {
+    throw new ProtocolError('No response from the page. Please refresh the page.');
+  }
+
+  const response = raw as ProtocolResponse<T>;
+
+  if (response.protocolVersion !== PROTOCOL_VERSION) {
+    throw new ProtocolError(
+      `Protocol version mismatch: expected ${PROTOCOL_VERSION}, got ${String(response.protocolVersion)}. Please refresh the page.`
+    );
+  }
+
+  if (!response.success) {
+    throw new ProtocolError(response.error);
+  }
+
+  return response;
+}
+
+export function createRequest<R extends { action: string }>(request: R): Versioned<R> {
+  return { ...request, protocolVersion: PROTOCOL_VERSION };
+}
+
+export function errorResponse(error: unknown): ErrorResponse {
+  return {
+    protocolVersion: PROTOCOL_VERSION,
+    success: false,
+    error: error instanceof Error ? error.message : String(error)
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Sending and receiving
+// ---------------------------------------------------------------------------
+
+type RequestOf<M, A extends keyof M> = { action: A } & M[A];
+
+export type RequestHandlers<Req, Res extends { [A in keyof Req]: unknown }> = {
+  [A in keyof Req]: (
+    request: RequestOf<Req, A>,
+    sender: chrome.runtime.MessageSender
+  ) => Res[A] | Promise<Res[A]>;
+};
+
+/**
+ * Register a chrome.runtime.onMessage listener that validates each request,
+ * dispatches it to its handler and replies with a versioned envelope.
+ * Extension pages pass their `target` and leave messages for other pages unanswered.
+ */
+export function listen<Req, Res extends { [A in keyof Req]: unknown }>(
+  schema: RequestSchema<Req>,
+  handlers: RequestHandlers<Req, Res>,
+  target?: MessageTarget
+) {
+  chrome.runtime.onMessage.addListener((raw, sender, sendResponse) => {
+    if (target && (raw as { target?: unknown } | null)?.target !== target) {
+      return false;
+    }
+
+    let request: RequestUnion<Req>;
+    try {
+      request = parseRequest(schema, raw);
+    } catch (error) {
+      console.error('❌ Rejected message:', error);
+      sendResponse(errorResponse(error));
+      return false;
+    }
+
+    console.log('📨 Message received:', request);
+
+    const action = (request as { action: keyof Req }).action;
+    const handler = handlers[action] as (
+      request: RequestUnion<Req>,
+      sender: chrome.runtime.MessageSender
+    ) => unknown;
+
+    Promise.resolve()
+      .then(() => handler(request, sender))
+      .then(
+        (result) => sendResponse({ ...(result as object), protocolVersion: PROTOCOL_VERSION, success: true }),
+        (error) => {
+          console.error(`❌ Error handling "${String(action)}":`, error);
+          sendResponse(errorResponse(error));
+        }
+      );
+
+    // Keep the channel open for async handlers
+    return true;
+  });
+}
+
+/**
+ * Send a request to the content script in a tab
+ */
+export async function sendToTab<A extends ContentAction>(
+  tabId: number,
+  request: RequestOf<ContentRequestMap, A>
+): Promise<ContentResponse<A>> {
+  const response = await chrome.tabs.sendMessage(tabId, createRequest(request));
+  return parseResponse<ContentResponseMap[A]>(response);
+}
+
+/**
+ * Send a request to the background service worker
+ */
+export async function sendToBackground<A extends BackgroundAction>(
+  request: RequestOf<BackgroundRequestMap, A>
+): Promise<BackgroundResponse<A>> {
+  const response = await chrome.runtime.sendMessage({ ...createRequest(request), target: 'background' });
+  return parseResponse<BackgroundResponseMap[A]>(response);
+}
+
+/**
+ * Send a request to the offscreen playback document
+ */
+export async function sendToOffscreen<A extends OffscreenAction>(
+  request: RequestOf<OffscreenRequestMap, A>
+): Promise<SuccessResponse<OffscreenResponseMap[A]>> {
+  const response = await chrome.runtime.sendMessage({ ...createRequest(request), target: 'offscreen' });
+  return parseResponse<OffscreenResponseMap[A]>(response);
+}
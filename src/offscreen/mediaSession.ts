@@ -0,0 +1,131 @@
+// src/offscreen/mediaSession.ts
+
+import { ContentItem } from '../types';
+import { PlaybackEngine, PlaybackState } from '../playback/playback';
+
+/**
+ * Media Session integration: OS now-playing metadata and hardware media keys.
+ * Speech synthesis alone doesn't make a page "play media", so a silent looping
+ * <audio> element runs alongside speech to keep Chrome's media controls attached.
+ *
+ * The seek bar counts items, not seconds: item N sits at N seconds, so seeking
+ * jumps between comments.
+ */
+
+export interface ThreadInfo {
+  title: string;
+  community: string;
+}
+
+/**
+ * One second of 8 kHz mono silence as a WAV data URI
+ */
+function createSilentAudio(): HTMLAudioElement {
+  const sampleRate = 8000;
+  const samples = sampleRate;
+  const buffer = new ArrayBuffer(44 + samples);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate, true);
+  view.setUint16(32, 1, true);
+  view.setUint16(34, 8, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples, true);
+  // 8-bit PCM silence is 128, not 0
+  new Uint8Array(buffer, 44).fill(128);
+
+  let binary = '';
+  new Uint8Array(buffer).forEach(byte => { binary += String.fromCharCode(byte); });
+
+  const audio = new Audio(`data:audio/wav;base64,${btoa(binary)}`);
+  audio.loop = true;
+  return audio;
+}
+
+/**
+ * "Comment 12 of 80" style label for the item being read
+ */
+function describeItem(items: ContentItem[], index: number): string {
+  const item = items[index];
+  if (!item) return '';
+  if (item.type === 'title') return 'Post title';
+  if (item.type === 'body') return 'Post body';
+
+  const comments = items.filter(i => i.type === 'comment');
+  const number = items.slice(0, index + 1).filter(i => i.type === 'comment').length;
+  return `Comment ${number} of ${comments.length}`;
+}
+
+export function connectMediaSession(engine: PlaybackEngine, getThread: () => ThreadInfo) {
+  if (!('mediaSession' in navigator)) {
+    console.warn('⚠️  Media Session API not available');
+    return;
+  }
+
+  const mediaSession = navigator.mediaSession;
+  const silence = createSilentAudio();
+
+  const updateMetadata = (index: number) => {
+    const items = engine.getItems();
+    const item = items[index];
+    if (!item) return;
+
+    const thread = getThread();
+    mediaSession.metadata = new MediaMetadata({
+      title: `${describeItem(items, index)} · ${thread.community}`,
+      artist: item.type === 'comment' ? `u/${item.author || 'deleted'}` : thread.community,
+      album: thread.title
+    });
+  };
+
+  const syncState = (state: PlaybackState) => {
+    const active = state.isPlaying || state.isPaused;
+    mediaSession.playbackState = state.isPlaying ? 'playing' : state.isPaused ? 'paused' : 'none';
+
+    if (state.isPlaying) {
+      silence.play().catch(error => console.warn('⚠️  Silent audio blocked:', error));
+    } else {
+      silence.pause();
+    }
+
+    if (!active) {
+      mediaSession.metadata = null;
+    }
+
+    if (state.totalItems > 0) {
+      mediaSession.setPositionState({
+        duration: state.totalItems,
+        position: Math.min(state.currentIndex, state.totalItems),
+        playbackRate: 1
+      });
+    }
+  };
+
+  engine.on('itemStart', ({ index }) => updateMetadata(index));
+  engine.on('stateChange', syncState);
+
+  mediaSession.setActionHandler('play', () => engine.play());
+  mediaSession.setActionHandler('pause', () => engine.pause());
+  mediaSession.setActionHandler('nexttrack', () => engine.next());
+  mediaSession.setActionHandler('previoustrack', () => engine.previous());
+  mediaSession.setActionHandler('seekforward', () => engine.nextSentence());
+  mediaSession.setActionHandler('seekbackward', () => engine.previousSentence());
+  mediaSession.setActionHandler('seekto', (details) => {
+    if (details.seekTime !== undefined) {
+      engine.seek(Math.floor(details.seekTime));
+    }
+  });
+  mediaSession.setActionHandler('stop', () => engine.stop());
+}
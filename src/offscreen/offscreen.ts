@@ -0,0 +1,264 @@
+// src/offscreen/offscreen.ts
+
+import { PlaybackEngine } from '../playback/playback';
+import {
+  BackgroundAction,
+  BackgroundRequestMap,
+  OFFSCREEN_REQUEST_SCHEMA,
+  OffscreenRequestMap,
+  OffscreenResponseMap,
+  listen,
+  sendToBackground
+} from '../messaging/protocol';
+import { ThreadInfo, connectMediaSession } from './mediaSession';
+import { AnnouncementSettings, DEFAULT_ANNOUNCEMENTS, buildAnnouncement } from '../playback/announcements';
+import { DEFAULT_NORMALIZATION, NormalizationSettings, normalizeText } from '../playback/normalization';
+import { DEFAULT_TTS_SETTINGS, TtsSettings, createTtsBackend } from '../playback/backends';
+import { handleTtsEvent, relayedChromeTts } from './ttsRelay';
+import {
+  AudioExportFormat,
+  AudioExportProgress,
+  AudioExportStatus,
+  ExportCancelledError,
+  renderThreadAudio
+} from '../export/audioExport';
+
+/**
+ * Offscreen document that hosts the speech engine.
+ * It outlives tabs and page navigations; the service worker owns the session and
+ * relays highlights to whichever tab shows the thread.
+ */
+
+const engine = new PlaybackEngine();
+let thread: ThreadInfo = { title: '', community: '' };
+let announcements: AnnouncementSettings = DEFAULT_ANNOUNCEMENTS;
+let normalization: NormalizationSettings = DEFAULT_NORMALIZATION;
+let tts: TtsSettings = DEFAULT_TTS_SETTINGS;
+let audioExport: AbortController | null = null;
+let exportUrl: string | null = null;
+
+engine.setAnnouncer((items, index) => buildAnnouncement(items, index, announcements));
+engine.setNormalizer((text) => normalizeText(text, normalization));
+
+connectMediaSession(engine, () => thread);
+
+function notifyBackground<A extends BackgroundAction>(request: { action: A } & BackgroundRequestMap[A]) {
+  sendToBackground(request).catch(error => {
+    console.error('Failed to notify background:', error);
+  });
+}
+
+engine.setHighlighter({
+  highlight: (_item, index) => notifyBackground({ action: 'engineHighlight', index }),
+  highlightWord: (_item, index, boundary) => notifyBackground({ action: 'engineHighlightWord', index, boundary }),
+  clear: () => notifyBackground({ action: 'engineClearHighlight' })
+});
+
+engine.on('chunkStart', ({ index, chunk }) => {
+  notifyBackground({ action: 'engineChunkStart', index, chunk });
+});
+
+engine.on('finished', () => {
+  notifyBackground({ action: 'engineFinished' });
+});
+
+/**
+ * Render the loaded thread to a file in the background of playback and hand
+ * the service worker a blob URL to download. The URL lives until the next export.
+ */
+async function runAudioExport(format: AudioExportFormat, controller: AbortController) {
+  const backend = engine.getBackend();
+  const report = (status: AudioExportStatus, done: number, total: number, error: string | null = null, url?: string) => {
+    const progress: AudioExportProgress = { format, status, done, total, error };
+    notifyBackground({ action: 'engineAudioExport', progress, url });
+  };
+
+  // Render the thread as it stands now: merges and loads while rendering
+  // change the engine's items, not this file
+  const items = engine.getItems();
+  try {
+    const scripts = items.map((_item, index) => engine.getScript(index));
+    if (!backend.synthesize) {
+      throw new Error('Audio export needs a speech backend that returns audio, such as a local TTS server');
+    }
+    const synthesize = backend.synthesize.bind(backend);
+
+    const blob = await renderThreadAudio(
+      {
+        title: thread.title,
+        items,
+        utterancesFor: (index) => scripts[index].utterances,
+        synthesize: (utterance, signal) => synthesize(utterance, signal)
+      },
+      format,
+      controller.signal,
+      (done, total) => report(done < total ? 'rendering' : 'finishing', done, total)
+    );
+
+    if (exportUrl) URL.revokeObjectURL(exportUrl);
+    exportUrl = URL.createObjectURL(blob);
+    report('done', items.length, items.length, null, exportUrl);
+  } catch (error) {
+    if (error instanceof ExportCancelledError) {
+      report('cancelled', 0, items.length);
+    } else {
+      console.error('❌ Audio export failed:', error);
+      report('failed', 0, items.length, error instanceof Error ? error.message : String(error));
+    }
+  } finally {
+    if (audioExport === controller) audioExport = null;
+  }
+}
+
+listen<OffscreenRequestMap, OffscreenResponseMap>(OFFSCREEN_REQUEST_SCHEMA, {
+  load: (request) => {
+    // An export renders the thread that was loaded when it started
+    audioExport?.abort();
+    thread = { title: request.title, community: request.community };
+    engine.setSelectedVoices(request.selectedVoices);
+    engine.setVoiceLocale(request.voiceLocale);
+    engine.load(request.items);
+    return engine.getState();
+  },
+
+  mergeItems: (request) => {
+    engine.mergeItems(request.items);
+    return engine.getState();
+  },
+
+  play: () => {
+    engine.play();
+    return engine.getState();
+  },
+
+  pause: () => {
+    engine.pause();
+    return engine.getState();
+  },
+
+  stop: () => {
+    engine.stop();
+    return engine.getState();
+  },
+
+  next: () => {
+    engine.next();
+    return engine.getState();
+  },
+
+  previous: () => {
+    engine.previous();
+    return engine.getState();
+  },
+
+  nextThread: () => {
+    engine.nextThread();
+    return engine.getState();
+  },
+
+  skipReplies: () => {
+    engine.skipReplies();
+    return engine.getState();
+  },
+
+  parent: () => {
+    engine.parent();
+    return engine.getState();
+  },
+
+  restartThread: () => {
+    engine.restartThread();
+    return engine.getState();
+  },
+
+  nextSentence: () => {
+    engine.nextSentence();
+    return engine.getState();
+  },
+
+  previousSentence: () => {
+    engine.previousSentence();
+    return engine.getState();
+  },
+
+  seek: (request) => {
+    engine.seek(request.index);
+    return engine.getState();
+  },
+
+  setPosition: (request) => {
+    engine.setPosition(request.index, request.chunk);
+    return engine.getState();
+  },
+
+  setSpeed: (request) => {
+    engine.setSpeed(request.speed);
+    return engine.getState();
+  },
+
+  setUniqueVoices: (request) => {
+    engine.setUniqueVoices(request.enabled);
+    return engine.getState();
+  },
+
+  setVoiceLocale: (request) => {
+    engine.setVoiceLocale(request.locale);
+    return engine.getState();
+  },
+
+  setAnnouncements: (request) => {
+    announcements = request.announcements;
+    return engine.getState();
+  },
+
+  setNormalization: (request) => {
+    normalization = request.normalization;
+    return engine.getState();
+  },
+
+  setVoicePins: (request) => {
+    engine.setVoicePins(request.pins);
+    return engine.getState();
+  },
+
+  setLanguageSettings: (request) => {
+    engine.setLanguageSettings(request.languages);
+    return engine.getState();
+  },
+
+  setTtsBackend: (request) => {
+    // Settings are pushed whenever any of them change; keep the backend unless this one did
+    if (request.tts.backend !== tts.backend || request.tts.httpEndpoint !== tts.httpEndpoint) {
+      tts = request.tts;
+      engine.setBackend(createTtsBackend(tts, relayedChromeTts));
+    }
+    return engine.getState();
+  },
+
+  startAudioExport: (request) => {
+    if (audioExport) {
+      throw new Error('An audio export is already running');
+    }
+    audioExport = new AbortController();
+    runAudioExport(request.format, audioExport);
+    return engine.getState();
+  },
+
+  cancelAudioExport: () => {
+    audioExport?.abort();
+    return engine.getState();
+  },
+
+  getScript: () => ({
+    ...engine.getState(),
+    script: engine.getItems().map((_item, index) => engine.getScript(index))
+  }),
+
+  ttsEvent: (request) => {
+    const { id, ...event } = request;
+    handleTtsEvent(id, event);
+    return engine.getState();
+  },
+
+  getState: () => engine.getState()
+}, 'offscreen');
@@ -0,0 +1,45 @@
+// src/offscreen/ttsRelay.ts
+
+import { ChromeTtsApi, ChromeTtsEvent } from '../playback/backends';
+import { sendToBackground } from '../messaging/protocol';
+
+/**
+ * chrome.tts for the offscreen document, which only has chrome.runtime.
+ * The service worker speaks and sends each event back tagged with the
+ * utterance id; events for anything but the latest utterance are dropped.
+ */
+
+let nextId = 1;
+let current: { id: number; onEvent: (event: ChromeTtsEvent) => void } | null = null;
+
+export const relayedChromeTts: ChromeTtsApi = {
+  getVoices: async () => (await sendToBackground({ action: 'ttsGetVoices' })).voices,
+
+  speak: (text, options, onEvent) => {
+    const id = nextId++;
+    current = { id, onEvent };
+    sendToBackground({ action: 'ttsSpeak', id, text, ...options }).catch(error => {
+      handleTtsEvent(id, { type: 'error', errorMessage: error instanceof Error ? error.message : String(error) });
+    });
+  },
+
+  stop: () => {
+    current = null;
+    sendToBackground({ action: 'ttsStop' }).catch(error => {
+      console.error('chrome.tts relay failed:', error);
+    });
+  }
+};
+
+/**
+ * Deliver an event the service worker forwarded from chrome.tts
+ */
+export function handleTtsEvent(id: number, event: ChromeTtsEvent) {
+  if (!current || current.id !== id) return;
+
+  const { onEvent } = current;
+  if (event.type === 'end' || event.type === 'error' || event.type === 'interrupted' || event.type === 'cancelled') {
+    current = null;
+  }
+  onEvent(event);
+}
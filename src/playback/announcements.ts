@@ -0,0 +1,109 @@
+// src/playback/announcements.ts
+
+import { ContentItem } from '../types';
+
+/**
+ * Spoken narration before each comment ("u/someone says", "OP replies", ...).
+ * Templates fill `{name}` placeholders from the item's author and depth and its
+ * neighbours in the reading order. Kept DOM-free: the popup edits these settings
+ * and the offscreen engine speaks them.
+ */
+
+export type AnnouncementKind = 'position' | 'author' | 'reply' | 'opReply' | 'backToTopLevel';
+
+export interface AnnouncementRule {
+  enabled: boolean;
+  template: string;
+}
+
+export type AnnouncementSettings = Record<AnnouncementKind, AnnouncementRule>;
+
+export const DEFAULT_ANNOUNCEMENTS: AnnouncementSettings = {
+  position: { enabled: false, template: 'Comment {number} of {total}' },
+  author: { enabled: true, template: 'u/{author} says' },
+  reply: { enabled: true, template: '{author} replies to {parentAuthor}' },
+  opReply: { enabled: true, template: 'OP replies' },
+  backToTopLevel: { enabled: true, template: 'Back to the top-level comment by {author}' }
+};
+
+/**
+ * Placeholders each template can use
+ */
+export const ANNOUNCEMENT_VARIABLES = ['author', 'parentAuthor', 'number', 'total'] as const;
+
+type AnnouncementVariables = Record<typeof ANNOUNCEMENT_VARIABLES[number], string>;
+
+const DELETED_AUTHOR = 'deleted';
+
+function render(template: string, variables: AnnouncementVariables): string {
+  return template
+    .replace(/\{(\w+)\}/g, (match, name: string) =>
+      Object.prototype.hasOwnProperty.call(variables, name) ? variables[name as keyof AnnouncementVariables] : match
+    )
+    .trim();
+}
+
+function getDepth(item: ContentItem | undefined): number {
+  if (!item || item.type !== 'comment') return -1;
+  return item.depth || 0;
+}
+
+/**
+ * The comment an item replies to: the closest earlier comment one level up
+ */
+function findParent(items: ContentItem[], index: number): ContentItem | null {
+  const depth = getDepth(items[index]);
+  for (let i = index - 1; i >= 0; i--) {
+    const itemDepth = getDepth(items[i]);
+    if (itemDepth === depth - 1) return items[i];
+    if (itemDepth < depth - 1) break;
+  }
+  return null;
+}
+
+/**
+ * Narration to speak before an item, or '' when nothing applies
+ */
+export function buildAnnouncement(items: ContentItem[], index: number, settings: AnnouncementSettings): string {
+  const item = items[index];
+  if (!item || item.type !== 'comment') return '';
+
+  const depth = getDepth(item);
+  const opAuthor = items.find(i => i.type === 'title' || i.type === 'body')?.author || null;
+  const isOp = !!item.author && item.author === opAuthor;
+  const parent = depth > 0 ? findParent(items, index) : null;
+  const comments = items.filter(i => i.type === 'comment');
+
+  const variables: AnnouncementVariables = {
+    author: item.author || DELETED_AUTHOR,
+    parentAuthor: parent ? parent.author || DELETED_AUTHOR : '',
+    number: String(items.slice(0, index + 1).filter(i => i.type === 'comment').length),
+    total: String(comments.length)
+  };
+
+  // Only one "who is talking" announcement, most specific first
+  let speaker: AnnouncementRule | null = null;
+  if (depth === 0) {
+    if (settings.backToTopLevel.enabled && getDepth(items[index - 1]) > 0) {
+      speaker = settings.backToTopLevel;
+    } else if (settings.author.enabled) {
+      speaker = settings.author;
+    }
+  } else if (isOp && settings.opReply.enabled) {
+    speaker = settings.opReply;
+  } else if (parent && settings.reply.enabled) {
+    speaker = settings.reply;
+  } else if (settings.author.enabled) {
+    speaker = settings.author;
+  }
+
+  const parts: string[] = [];
+  if (settings.position.enabled) {
+    parts.push(render(settings.position.template, variables));
+  }
+  if (speaker) {
+    parts.push(render(speaker.template, variables));
+  }
+
+  return parts.filter(part => part.length > 0).join('. ');
+}
@@ -0,0 +1,92 @@
+// src/playback/backends/chromeTts.ts
+
+import { TtsBackend, TtsHandlers, TtsUtterance, TtsVoice } from './ttsBackend';
+
+/**
+ * `chrome.tts`: the browser's TTS engines, including voices installed by other
+ * extensions. Offscreen documents can't call chrome.tts, so the backend talks to
+ * it through a ChromeTtsApi, which there is relayed via the service worker.
+ */
+
+export interface ChromeTtsEvent {
+  type: string;           // chrome.tts event type: 'word', 'end', 'error', 'interrupted', ...
+  charIndex?: number;
+  errorMessage?: string;
+}
+
+export interface ChromeTtsSpeakOptions {
+  voiceName?: string;
+  lang: string;
+  rate: number;
+}
+
+/**
+ * The slice of chrome.tts the backend uses
+ */
+export interface ChromeTtsApi {
+  getVoices(): Promise<TtsVoice[]>;
+  speak(text: string, options: ChromeTtsSpeakOptions, onEvent: (event: ChromeTtsEvent) => void): void;
+  stop(): void;
+}
+
+/**
+ * chrome.tts itself, for pages and workers that have it
+ */
+export const directChromeTts: ChromeTtsApi = {
+  getVoices: async () => {
+    const voices = await chrome.tts.getVoices();
+    return voices
+      .filter(voice => voice.voiceName)
+      .map(voice => ({ name: voice.voiceName as string, lang: voice.lang || '' }));
+  },
+
+  speak: (text, options, onEvent) => {
+    chrome.tts.speak(text, {
+      voiceName: options.voiceName,
+      lang: options.voiceName ? undefined : options.lang,
+      // chrome.tts takes 0.1 - 10, with 1 as the voice's normal speed like Web Speech
+      rate: Math.max(0.1, Math.min(10, options.rate)),
+      enqueue: false,
+      onEvent: (event) => onEvent({ type: event.type, charIndex: event.charIndex, errorMessage: event.errorMessage })
+    });
+  },
+
+  stop: () => chrome.tts.stop()
+};
+
+export class ChromeTtsBackend implements TtsBackend {
+  readonly kind = 'chromeTts';
+
+  constructor(private api: ChromeTtsApi = directChromeTts) {}
+
+  getVoices(): Promise<TtsVoice[]> {
+    return this.api.getVoices();
+  }
+
+  onVoicesChanged(_listener: () => void): () => void {
+    // chrome.tts has no change event; voices are read again when the backend is recreated
+    return () => {};
+  }
+
+  speak(utterance: TtsUtterance, handlers: TtsHandlers) {
+    const options: ChromeTtsSpeakOptions = {
+      voiceName: utterance.voice?.name,
+      lang: utterance.lang,
+      rate: utterance.rate
+    };
+
+    this.api.speak(utterance.text, options, (event) => {
+      if (event.type === 'word' && event.charIndex !== undefined) {
+        handlers.onBoundary(event.charIndex);
+      } else if (event.type === 'end') {
+        handlers.onEnd();
+      } else if (event.type === 'error') {
+        handlers.onError(event.errorMessage || 'chrome.tts error');
+      }
+    });
+  }
+
+  cancel() {
+    this.api.stop();
+  }
+}
@@ -0,0 +1,168 @@
+// src/playback/backends/httpTts.ts
+
+import { TtsBackend, TtsHandlers, TtsUtterance, TtsVoice } from './ttsBackend';
+
+/**
+ * A local TTS server (Piper-style) reached over HTTP. Each sentence is POSTed
+ * as JSON `{ text, voice }` to the endpoint, and the audio it returns plays
+ * through an <audio> element (or goes into an audio export). Voices come from
+ * `GET <endpoint>/voices` when the server offers it.
+ *
+ * Speed is applied on playback, so it works whatever the server supports.
+ * Servers don't report word timings, so word boundaries are estimated from how
+ * far through the audio playback is.
+ */
+
+const DEFAULT_VOICE: TtsVoice = { name: 'Local TTS server', lang: '' };
+
+/**
+ * Piper writes locales as "en_US"
+ */
+function toLocale(value: unknown): string {
+  return typeof value === 'string' ? value.replace(/_/g, '-') : '';
+}
+
+/**
+ * Accept the common shapes of a voice list: names, { name, lang } objects, or
+ * an object keyed by voice name (Piper's, with `language.code` per voice)
+ */
+export function parseVoiceList(data: unknown): TtsVoice[] {
+  if (Array.isArray(data)) {
+    return data
+      .map(entry => {
+        if (typeof entry === 'string') return { name: entry, lang: '' };
+        const voice = entry as Record<string, unknown> | null;
+        const name = voice?.name ?? voice?.id ?? voice?.key;
+        return typeof name === 'string' ? { name, lang: toLocale(voice?.lang ?? voice?.language) } : null;
+      })
+      .filter((voice): voice is TtsVoice => voice !== null);
+  }
+
+  if (data && typeof data === 'object') {
+    return Object.entries(data as Record<string, unknown>).map(([name, info]) => {
+      const language = (info as { language?: { code?: unknown } } | null)?.language;
+      return { name, lang: toLocale(language?.code) };
+    });
+  }
+
+  return [];
+}
+
+/**
+ * Offsets where each word of the text starts
+ */
+function wordStarts(text: string): number[] {
+  return Array.from(text.matchAll(/\S+/g), match => match.index ?? 0);
+}
+
+export class HttpTtsBackend implements TtsBackend {
+  readonly kind = 'http';
+  private audio: HTMLAudioElement | null = null;
+  private request: AbortController | null = null;
+  private audioUrl: string | null = null;
+
+  constructor(private endpoint: string) {}
+
+  async getVoices(): Promise<TtsVoice[]> {
+    try {
+      const response = await fetch(new URL('voices', this.endpoint.replace(/\/?$/, '/')));
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const voices = parseVoiceList(await response.json());
+      return voices.length > 0 ? voices : [DEFAULT_VOICE];
+    } catch (error) {
+      console.warn('⚠️  Could not list voices from the TTS server:', error);
+      return [DEFAULT_VOICE];
+    }
+  }
+
+  onVoicesChanged(_listener: () => void): () => void {
+    return () => {};
+  }
+
+  async synthesize(utterance: TtsUtterance, signal?: AbortSignal): Promise<ArrayBuffer> {
+    const voice = utterance.voice && utterance.voice.name !== DEFAULT_VOICE.name ? utterance.voice.name : undefined;
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text: utterance.text, voice }),
+      signal
+    });
+    if (!response.ok) throw new Error(`TTS server answered HTTP ${response.status}`);
+    return response.arrayBuffer();
+  }
+
+  speak(utterance: TtsUtterance, handlers: TtsHandlers) {
+    this.cancel();
+
+    const request = new AbortController();
+    this.request = request;
+
+    this.synthesize(utterance, request.signal)
+      .then(audio => {
+        if (this.request !== request) return;
+        this.play(new Blob([audio]), utterance, handlers);
+      })
+      .catch(error => {
+        if (this.request !== request) return;
+        this.request = null;
+        handlers.onError(error instanceof Error ? error.message : String(error));
+      });
+  }
+
+  cancel() {
+    this.request?.abort();
+    this.request = null;
+    this.releaseAudio();
+  }
+
+  private play(blob: Blob, utterance: TtsUtterance, handlers: TtsHandlers) {
+    const audio = new Audio();
+    this.audioUrl = URL.createObjectURL(blob);
+    this.audio = audio;
+
+    const starts = wordStarts(utterance.text);
+    let lastWord = -1;
+
+    audio.ontimeupdate = () => {
+      if (this.audio !== audio || !audio.duration) return;
+      const position = utterance.text.length * (audio.currentTime / audio.duration);
+      let word = lastWord;
+      while (word + 1 < starts.length && starts[word + 1] <= position) word++;
+      if (word > lastWord) {
+        lastWord = word;
+        handlers.onBoundary(starts[word]);
+      }
+    };
+
+    audio.onended = () => {
+      if (this.audio !== audio) return;
+      this.releaseAudio();
+      handlers.onEnd();
+    };
+
+    audio.onerror = () => {
+      if (this.audio !== audio) return;
+      this.releaseAudio();
+      handlers.onError('The TTS server returned audio that could not be played');
+    };
+
+    audio.src = this.audioUrl;
+    audio.playbackRate = utterance.rate;
+    audio.play().catch(error => {
+      if (this.audio !== audio) return;
+      this.releaseAudio();
+      handlers.onError(error instanceof Error ? error.message : String(error));
+    });
+  }
+
+  private releaseAudio() {
+    if (this.audio) {
+      this.audio.pause();
+      this.audio = null;
+    }
+    if (this.audioUrl) {
+      URL.revokeObjectURL(this.audioUrl);
+      this.audioUrl = null;
+    }
+  }
+}
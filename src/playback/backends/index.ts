@@ -0,0 +1,26 @@
+// src/playback/backends/index.ts
+
+import { TtsBackend, TtsSettings } from './ttsBackend';
+import { WebSpeechBackend } from './webSpeech';
+import { ChromeTtsApi, ChromeTtsBackend, directChromeTts } from './chromeTts';
+import { HttpTtsBackend } from './httpTts';
+
+export type { TtsBackend, TtsBackendKind, TtsSettings, TtsVoice, TtsUtterance, TtsHandlers } from './ttsBackend';
+export { DEFAULT_TTS_SETTINGS } from './ttsBackend';
+export type { ChromeTtsApi, ChromeTtsEvent, ChromeTtsSpeakOptions } from './chromeTts';
+export { directChromeTts } from './chromeTts';
+
+/**
+ * Build the backend the settings ask for. `chromeTts` is how this page reaches
+ * chrome.tts (offscreen documents relay it through the service worker).
+ */
+export function createTtsBackend(settings: TtsSettings, chromeTts: ChromeTtsApi = directChromeTts): TtsBackend {
+  switch (settings.backend) {
+    case 'chromeTts':
+      return new ChromeTtsBackend(chromeTts);
+    case 'http':
+      return new HttpTtsBackend(settings.httpEndpoint);
+    default:
+      return new WebSpeechBackend();
+  }
+}
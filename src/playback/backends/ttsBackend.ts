@@ -0,0 +1,68 @@
+// src/playback/backends/ttsBackend.ts
+
+/**
+ * What the playback engine needs from a speech synthesizer. Backends hide how
+ * speech is produced (Web Speech, chrome.tts, a local TTS server) behind one
+ * voice shape, one rate scale and one set of events.
+ */
+
+export type TtsBackendKind = 'webSpeech' | 'chromeTts' | 'http';
+
+export interface TtsSettings {
+  backend: TtsBackendKind;
+  httpEndpoint: string;   // local server that turns text into audio
+}
+
+export const DEFAULT_TTS_SETTINGS: TtsSettings = {
+  backend: 'webSpeech',
+  httpEndpoint: 'http://localhost:5000/'
+};
+
+export interface TtsVoice {
+  name: string;
+  lang: string;   // BCP 47 ("en-US"); '' when the backend doesn't say
+}
+
+/**
+ * One sentence to speak. The engine recognises its own utterances by identity,
+ * so backends must pass this object through untouched.
+ */
+export interface TtsUtterance {
+  text: string;
+  voice: TtsVoice | null;   // null for the backend's default voice
+  lang: string;
+  rate: number;             // 1 is the voice's normal speed
+}
+
+export interface TtsHandlers {
+  /**
+   * A word starts at this offset into the utterance text
+   */
+  onBoundary(charIndex: number): void;
+  onEnd(): void;
+  onError(error: string): void;
+}
+
+export interface TtsBackend {
+  readonly kind: TtsBackendKind;
+
+  getVoices(): Promise<TtsVoice[]>;
+
+  /**
+   * Called when the voice list may have changed. Returns an unsubscribe function.
+   */
+  onVoicesChanged(listener: () => void): () => void;
+
+  /**
+   * Speak one utterance. The engine cancels before starting another; an
+   * utterance cut short that way may or may not report end or error afterwards.
+   */
+  speak(utterance: TtsUtterance, handlers: TtsHandlers): void;
+  cancel(): void;
+
+  /**
+   * Render an utterance to an audio file (WAV, MP3, ...) without playing it.
+   * Only backends that produce audio data themselves can offer this.
+   */
+  synthesize?(utterance: TtsUtterance, signal?: AbortSignal): Promise<ArrayBuffer>;
+}
@@ -0,0 +1,43 @@
+// src/playback/backends/webSpeech.ts
+
+import { TtsBackend, TtsHandlers, TtsUtterance, TtsVoice } from './ttsBackend';
+
+/**
+ * The page's own `speechSynthesis`: the voices built into the OS and browser
+ */
+export class WebSpeechBackend implements TtsBackend {
+  readonly kind = 'webSpeech';
+  private synthesis = window.speechSynthesis;
+
+  async getVoices(): Promise<TtsVoice[]> {
+    return this.synthesis.getVoices().map(voice => ({ name: voice.name, lang: voice.lang }));
+  }
+
+  onVoicesChanged(listener: () => void): () => void {
+    this.synthesis.addEventListener('voiceschanged', listener);
+    return () => this.synthesis.removeEventListener('voiceschanged', listener);
+  }
+
+  speak(utterance: TtsUtterance, handlers: TtsHandlers) {
+    const speech = new SpeechSynthesisUtterance(utterance.text);
+    speech.rate = utterance.rate;
+    speech.lang = utterance.lang;
+
+    const voice = utterance.voice && this.synthesis.getVoices().find(v => v.name === utterance.voice?.name);
+    if (voice) {
+      speech.voice = voice;
+    }
+
+    speech.onboundary = (event) => {
+      if (event.name === 'word') handlers.onBoundary(event.charIndex);
+    };
+    speech.onend = () => handlers.onEnd();
+    speech.onerror = (event) => handlers.onError(event.error);
+
+    this.synthesis.speak(speech);
+  }
+
+  cancel() {
+    this.synthesis.cancel();
+  }
+}
@@ -0,0 +1,85 @@
+// src/playback/chunking.ts
+
+/**
+ * Splits item text into sentence/paragraph chunks for speaking.
+ * Short utterances avoid Chrome's cutoff on long speech and give us
+ * a position inside the item for sentence-level rewind and resume.
+ */
+
+// Chrome tends to stop speaking utterances after ~15 seconds
+const MAX_CHUNK_LENGTH = 250;
+
+// Words ending in "." that don't end a sentence
+const ABBREVIATIONS = ['mr', 'mrs', 'ms', 'dr', 'st', 'vs', 'etc', 'e.g', 'i.e', 'approx', 'jr', 'sr'];
+
+const SENTENCE_END = /[.!?…]+["'”’)\]]*\s+/g;
+
+function splitSentences(paragraph: string): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  SENTENCE_END.lastIndex = 0;
+  while ((match = SENTENCE_END.exec(paragraph)) !== null) {
+    const end = match.index + match[0].length;
+    const nextChar = paragraph.charAt(end);
+
+    // Only break before something that looks like a sentence start
+    if (!/[A-Z0-9"'“‘(\[]/.test(nextChar)) continue;
+
+    const lastWord = paragraph.slice(start, match.index).split(/\s+/).pop()?.toLowerCase() || '';
+    if (match[0].startsWith('.') && ABBREVIATIONS.includes(lastWord)) continue;
+
+    sentences.push(paragraph.slice(start, end).trim());
+    start = end;
+  }
+
+  const rest = paragraph.slice(start).trim();
+  if (rest) sentences.push(rest);
+
+  return sentences;
+}
+
+/**
+ * Break an overly long sentence at clause boundaries, then at word boundaries
+ */
+function splitLong(sentence: string): string[] {
+  if (sentence.length <= MAX_CHUNK_LENGTH) return [sentence];
+
+  const pieces: string[] = [];
+  let remaining = sentence;
+
+  while (remaining.length > MAX_CHUNK_LENGTH) {
+    const window = remaining.slice(0, MAX_CHUNK_LENGTH);
+    let cut = Math.max(window.lastIndexOf(', '), window.lastIndexOf('; '), window.lastIndexOf(': '));
+    if (cut < MAX_CHUNK_LENGTH / 2) {
+      cut = window.lastIndexOf(' ');
+    }
+    if (cut <= 0) {
+      cut = MAX_CHUNK_LENGTH - 1;
+    }
+
+    pieces.push(remaining.slice(0, cut + 1).trim());
+    remaining = remaining.slice(cut + 1).trim();
+  }
+
+  if (remaining) pieces.push(remaining);
+  return pieces;
+}
+
+/**
+ * Split text into speakable chunks: paragraphs, then sentences, then clauses for very long sentences
+ *
+ * @param text - Item text (paragraphs separated by newlines)
+ * @returns At least one chunk (the whole text when it can't be split)
+ */
+export function splitIntoChunks(text: string): string[] {
+  const chunks = text
+    .split(/\n+/)
+    .map(paragraph => paragraph.trim())
+    .filter(paragraph => paragraph.length > 0)
+    .flatMap(paragraph => splitSentences(paragraph))
+    .flatMap(sentence => splitLong(sentence));
+
+  return chunks.length > 0 ? chunks : [text];
+}
@@ -0,0 +1,140 @@
+// src/playback/languageDetection.ts
+
+/**
+ * Offline language detection for picking a voice per comment.
+ * Non-Latin scripts give the language away on their own; Latin-script text is
+ * scored against each language's most common words. Short or ambiguous text
+ * returns null so the thread's own locale is used.
+ */
+
+export type LanguageFallback = 'threadVoice' | 'announceSkip';
+
+export interface LanguageSettings {
+  detect: boolean;
+  fallback: LanguageFallback;   // what to do when no voice speaks the detected language
+}
+
+export const DEFAULT_LANGUAGE_SETTINGS: LanguageSettings = {
+  detect: true,
+  fallback: 'threadVoice'
+};
+
+export const LANGUAGE_NAMES: Record<string, string> = {
+  ar: 'Arabic',
+  da: 'Danish',
+  de: 'German',
+  el: 'Greek',
+  en: 'English',
+  es: 'Spanish',
+  fa: 'Persian',
+  fi: 'Finnish',
+  fr: 'French',
+  he: 'Hebrew',
+  hi: 'Hindi',
+  id: 'Indonesian',
+  it: 'Italian',
+  ja: 'Japanese',
+  ko: 'Korean',
+  nl: 'Dutch',
+  no: 'Norwegian',
+  pl: 'Polish',
+  pt: 'Portuguese',
+  ru: 'Russian',
+  sv: 'Swedish',
+  th: 'Thai',
+  tr: 'Turkish',
+  uk: 'Ukrainian',
+  zh: 'Chinese'
+};
+
+const KANA = /[\p{Script=Hiragana}\p{Script=Katakana}]/gu;
+const HAN = /\p{Script=Han}/gu;
+
+const SCRIPTS: Array<{ language: string; pattern: RegExp }> = [
+  { language: 'ko', pattern: /\p{Script=Hangul}/gu },
+  { language: 'zh', pattern: HAN },
+  { language: 'ru', pattern: /\p{Script=Cyrillic}/gu },
+  { language: 'el', pattern: /\p{Script=Greek}/gu },
+  { language: 'ar', pattern: /\p{Script=Arabic}/gu },
+  { language: 'he', pattern: /\p{Script=Hebrew}/gu },
+  { language: 'th', pattern: /\p{Script=Thai}/gu },
+  { language: 'hi', pattern: /\p{Script=Devanagari}/gu }
+];
+
+/**
+ * Letters that separate languages sharing a script
+ */
+const SCRIPT_REFINEMENTS: Record<string, { language: string; pattern: RegExp }> = {
+  ru: { language: 'uk', pattern: /[іїєґ]/i },
+  ar: { language: 'fa', pattern: /[پچژگ]/ }
+};
+
+/**
+ * Norwegian is left out: its common words are Danish's, so the two would always tie
+ */
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'was', 'of', 'to', 'in', 'that', 'it', 'you', 'this', 'with', 'for', 'not', 'have', 'but', 'they', 'what', 'just'],
+  es: ['el', 'la', 'los', 'las', 'de', 'que', 'y', 'en', 'es', 'por', 'para', 'con', 'una', 'pero', 'muy', 'como', 'está', 'porque', 'yo', 'sí'],
+  fr: ['le', 'la', 'les', 'de', 'des', 'et', 'est', 'une', 'que', 'qui', 'pas', 'pour', 'dans', 'avec', 'je', 'vous', 'mais', 'c\'est', 'sur', 'très'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'zu', 'mit', 'sie', 'auf', 'ein', 'eine', 'auch', 'es', 'sich', 'den', 'wie', 'aber', 'dass'],
+  it: ['il', 'la', 'di', 'che', 'e', 'è', 'non', 'per', 'una', 'sono', 'con', 'mi', 'ma', 'questo', 'anche', 'gli', 'del', 'della', 'come', 'perché'],
+  pt: ['o', 'a', 'os', 'de', 'que', 'e', 'não', 'um', 'uma', 'para', 'com', 'é', 'mas', 'muito', 'você', 'isso', 'por', 'tem', 'do', 'da'],
+  nl: ['de', 'het', 'een', 'en', 'is', 'van', 'dat', 'niet', 'ik', 'je', 'op', 'te', 'met', 'zijn', 'maar', 'ook', 'voor', 'wat', 'er', 'dit'],
+  sv: ['och', 'att', 'det', 'är', 'som', 'en', 'på', 'jag', 'inte', 'för', 'med', 'har', 'av', 'du', 'men', 'den', 'till', 'om', 'ett', 'så'],
+  da: ['og', 'at', 'det', 'er', 'en', 'jeg', 'ikke', 'på', 'til', 'med', 'har', 'af', 'du', 'men', 'den', 'som', 'for', 'de', 'et', 'så'],
+  fi: ['ja', 'on', 'ei', 'se', 'että', 'hän', 'oli', 'mutta', 'kun', 'niin', 'minä', 'sinä', 'tämä', 'ole', 'myös', 'jos', 'kuin', 'vain', 'nyt', 'mitä'],
+  pl: ['i', 'w', 'nie', 'się', 'na', 'to', 'że', 'jest', 'z', 'do', 'jak', 'ale', 'co', 'tak', 'jestem', 'mnie', 'był', 'tylko', 'już', 'czy'],
+  tr: ['ve', 'bir', 'bu', 'da', 'de', 'için', 'ne', 'çok', 'ben', 'ama', 'gibi', 'daha', 'var', 'yok', 'mi', 'olarak', 'sen', 'o', 'şey', 'kadar'],
+  id: ['yang', 'dan', 'di', 'itu', 'ini', 'dengan', 'untuk', 'tidak', 'saya', 'ada', 'dari', 'akan', 'juga', 'kamu', 'sudah', 'bisa', 'atau', 'karena', 'ke', 'apa']
+};
+
+const STOPWORD_SETS = Object.fromEntries(
+  Object.entries(STOPWORDS).map(([language, words]) => [language, new Set(words)])
+);
+
+const MIN_WORDS = 4;
+const SCRIPT_SHARE = 0.3;
+
+function countMatches(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length || 0;
+}
+
+/**
+ * ISO 639-1 code of the text's language, or null when unsure
+ */
+export function detectLanguage(text: string): string | null {
+  const letters = countMatches(text, /\p{L}/gu);
+  if (letters === 0) return null;
+
+  // Japanese mixes kanji with kana; any kana means it isn't Chinese
+  const kana = countMatches(text, KANA);
+  if (kana > 0 && (kana + countMatches(text, HAN)) / letters > SCRIPT_SHARE) {
+    return 'ja';
+  }
+
+  for (const { language, pattern } of SCRIPTS) {
+    // A few borrowed characters don't make a comment foreign
+    if (countMatches(text, pattern) / letters > SCRIPT_SHARE) {
+      const refinement = SCRIPT_REFINEMENTS[language];
+      return refinement && refinement.pattern.test(text) ? refinement.language : language;
+    }
+  }
+
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) || [];
+  if (words.length < MIN_WORDS) return null;
+
+  const scores = Object.entries(STOPWORD_SETS)
+    .map(([language, set]) => ({ language, score: words.filter(word => set.has(word)).length }))
+    .sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scores;
+  if (best.score < 2 || best.score < runnerUp.score * 1.5) return null;
+  return best.language;
+}
+
+/**
+ * "en-US" -> "en"
+ */
+export function languageOf(locale: string): string {
+  return locale.toLowerCase().split(/[-_]/)[0];
+}
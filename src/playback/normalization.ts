@@ -0,0 +1,349 @@
+// src/playback/normalization.ts
+
+/**
+ * Text normalization applied just before speaking: Reddit slang, community and
+ * user mentions, emoji, runs of punctuation, money, times and numbers.
+ * Rules run in the order listed and each can be switched off in Settings.
+ * Every rule documents itself with input/output examples, which the settings
+ * screen shows and which double as its test cases.
+ */
+
+export type NormalizationRuleId =
+  | 'mentions'
+  | 'slang'
+  | 'emojiWords'
+  | 'dropEmoji'
+  | 'punctuation'
+  | 'currency'
+  | 'times'
+  | 'numbers';
+
+export interface NormalizationExample {
+  input: string;
+  output: string;
+}
+
+export interface NormalizationRule {
+  id: NormalizationRuleId;
+  label: string;
+  apply: (text: string) => string;
+  examples: NormalizationExample[];
+}
+
+export type NormalizationSettings = Record<NormalizationRuleId, boolean>;
+
+// ---------------------------------------------------------------------------
+// Rules
+// ---------------------------------------------------------------------------
+
+/**
+ * Acronyms that are also ordinary words ("op" in games, "til" for until, the
+ * name "Imo") only match uppercase
+ */
+const SLANG: Array<{ term: string; spoken: string; caseSensitive?: boolean }> = [
+  { term: 'OP', spoken: 'original poster', caseSensitive: true },
+  { term: 'TIL', spoken: 'today I learned', caseSensitive: true },
+  { term: 'IIRC', spoken: 'if I remember correctly' },
+  { term: 'AFAIK', spoken: 'as far as I know' },
+  { term: 'IMO', spoken: 'in my opinion', caseSensitive: true },
+  { term: 'IMHO', spoken: 'in my humble opinion' },
+  { term: 'FWIW', spoken: 'for what it\'s worth' },
+  { term: 'IANAL', spoken: 'I am not a lawyer' },
+  { term: 'YMMV', spoken: 'your mileage may vary' },
+  { term: 'ELI5', spoken: 'explain like I\'m five' },
+  { term: 'ITT', spoken: 'in this thread', caseSensitive: true },
+  { term: 'TL;DR', spoken: 'too long, didn\'t read' },
+  { term: 'TLDR', spoken: 'too long, didn\'t read' }
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function expandSlang(text: string): string {
+  let result = text;
+  SLANG.forEach(({ term, spoken, caseSensitive }) => {
+    const regex = new RegExp(`(?<![\\w/])${escapeRegExp(term)}(?![\\w/])`, caseSensitive ? 'g' : 'gi');
+    result = result.replace(regex, spoken);
+  });
+  // Trailing sarcasm marker: "great idea /s"
+  return result.replace(/(^|\s)\/s(?=$|\s|[.!?,)])/g, '$1(sarcasm)');
+}
+
+function speakMentions(text: string): string {
+  return text.replace(/(^|[^\w/])\/?([ru])\/([\w-]+)/g, '$1$2 slash $3');
+}
+
+const EMOJI_WORDS: Record<string, string> = {
+  '😂': 'laughing',
+  '🤣': 'laughing',
+  '😆': 'laughing',
+  '😅': 'nervous laugh',
+  '😊': 'smile',
+  '🙂': 'smile',
+  '😀': 'grin',
+  '😁': 'grin',
+  '😉': 'wink',
+  '😍': 'heart eyes',
+  '😭': 'crying',
+  '😢': 'sad',
+  '😡': 'angry',
+  '🤔': 'thinking',
+  '🙄': 'eye roll',
+  '😬': 'grimace',
+  '🤷': 'shrug',
+  '🤦': 'facepalm',
+  '👍': 'thumbs up',
+  '👎': 'thumbs down',
+  '👏': 'applause',
+  '🙏': 'thank you',
+  '💀': 'dead',
+  '🔥': 'fire',
+  '💯': 'one hundred',
+  '🎉': 'party',
+  '❤': 'heart',
+  '💔': 'broken heart',
+  '👀': 'eyes',
+  '✅': 'check',
+  '❌': 'cross'
+};
+
+// Skin tones, gender signs and variation selectors that ride along with a base emoji
+const EMOJI_MODIFIERS = /[\u{1F3FB}-\u{1F3FF}\u{FE0E}\u{FE0F}\u{200D}\u{2640}\u{2642}]/gu;
+
+/**
+ * Collapse runs of spaces left by removed or replaced symbols, keeping line breaks
+ */
+function tidySpaces(text: string): string {
+  return text.replace(/[^\S\n]+/g, ' ').replace(/ *\n */g, '\n').trim();
+}
+
+function emojiToWords(text: string): string {
+  const known = new RegExp(Object.keys(EMOJI_WORDS).join('|'), 'gu');
+  // Repeated emoji ("😂😂😂") are read once
+  const replaced = text
+    .replace(EMOJI_MODIFIERS, '')
+    .replace(new RegExp(`(${known.source})(?:\\s*\\1)+`, 'gu'), '$1')
+    .replace(known, emoji => ` (${EMOJI_WORDS[emoji]}) `);
+  return tidySpaces(replaced.replace(/ ([.!?,])/g, '$1'));
+}
+
+function dropEmoji(text: string): string {
+  return tidySpaces(text.replace(/\p{Extended_Pictographic}/gu, ' ').replace(EMOJI_MODIFIERS, ''));
+}
+
+function collapsePunctuation(text: string): string {
+  return text
+    .replace(/\.{4,}|…+/g, '...')
+    .replace(/([!?])[!?1]*[!?]/g, (run) => run.includes('?') ? '?' : '!')
+    .replace(/([,;:])\1+/g, '$1')
+    .replace(/([-_=*~#])\1{2,}/g, ' ')
+    .replace(/[^\S\n]{2,}/g, ' ');
+}
+
+const CURRENCY_NAMES: Record<string, [string, string]> = {
+  '$': ['dollar', 'dollars'],
+  '€': ['euro', 'euros'],
+  '£': ['pound', 'pounds'],
+  '¥': ['yen', 'yen']
+};
+
+const SCALE_WORDS: Record<string, string> = {
+  k: 'thousand',
+  m: 'million',
+  mm: 'million',
+  b: 'billion',
+  bn: 'billion',
+  t: 'trillion'
+};
+
+function speakCurrency(text: string): string {
+  return text.replace(
+    /([$€£¥])\s?(\d[\d,]*)(?:\.(\d{1,2}))?(?:(k|mm|m|bn|b|t)\b|\s?(thousand|million|billion|trillion)\b)?/gi,
+    (_match, symbol: string, whole: string, cents: string | undefined, abbreviation: string | undefined, word: string | undefined) => {
+      const [singular, plural] = CURRENCY_NAMES[symbol];
+      const amount = whole.replace(/,/g, '');
+      const scale = abbreviation ? SCALE_WORDS[abbreviation.toLowerCase()] : word?.toLowerCase();
+
+      if (scale) {
+        const number = cents ? `${amount}.${cents}` : amount;
+        return `${number} ${scale} ${plural}`;
+      }
+
+      const unit = amount === '1' ? singular : plural;
+      const centValue = cents ? parseInt(cents.padEnd(2, '0'), 10) : 0;
+      if (centValue > 0 && symbol !== '¥') {
+        const centUnit = symbol === '£' ? (centValue === 1 ? 'penny' : 'pence') : (centValue === 1 ? 'cent' : 'cents');
+        return `${amount} ${unit} and ${centValue} ${centUnit}`;
+      }
+      return `${amount} ${unit}`;
+    }
+  );
+}
+
+function speakMeridiem(meridiem: string | undefined): string {
+  if (!meridiem) return '';
+  return meridiem.toLowerCase().startsWith('a') ? ' AM' : ' PM';
+}
+
+function speakTimes(text: string): string {
+  return text
+    .replace(/\b([01]?\d|2[0-3]):([0-5]\d)(?::[0-5]\d)?(?:\s?([ap])\.?m\.?(?![a-z]))?/gi, (_match, hour: string, minute: string, meridiem: string | undefined) => {
+      const hourValue = parseInt(hour, 10);
+      let spokenMinute: string;
+      if (minute !== '00') {
+        spokenMinute = minute.startsWith('0') ? ` oh ${minute[1]}` : ` ${minute}`;
+      } else if (meridiem) {
+        spokenMinute = '';
+      } else {
+        // 24-hour times past noon read as "fourteen hundred"
+        spokenMinute = hourValue <= 12 ? ' o\'clock' : ' hundred';
+      }
+      return `${hourValue}${spokenMinute}${speakMeridiem(meridiem)}`;
+    })
+    .replace(/\b(1[0-2]|0?[1-9])\s?([ap])\.?m\.?(?![a-z])/gi, (_match, hour: string, meridiem: string) =>
+      `${parseInt(hour, 10)}${speakMeridiem(meridiem)}`
+    );
+}
+
+// A dash between two numbers is only read as "to" when a word around it says
+// it's a range; otherwise it's as likely a date, a phone number or a score
+const RANGE_LEAD = /\b(?:pages?|pp\.?|chapters?|verses?|lines?|episodes?|seasons?|levels?|ages?|aged|years|steps|sizes|from|between|around|about|roughly|approximately|maybe)\s+$/i;
+const RANGE_UNIT = /^\s*(?:percent|years?|months?|weeks?|days?|hours?|hrs|minutes?|mins|seconds?|people|times|pages|miles|mph|km|kg|lbs?|pounds|dollars|euros|players|items)\b/i;
+
+function speakRanges(text: string): string {
+  // Whole dash-separated numbers only, so 2023-10-12 isn't split into parts
+  return text.replace(/(?<![\w.\-–])(\d+)\s?[-–]\s?(\d+)(?![\w\-–]|\.\d)/g, (match, from: string, to: string, offset: number) => {
+    const isRange = RANGE_LEAD.test(text.slice(0, offset)) || RANGE_UNIT.test(text.slice(offset + match.length));
+    return isRange ? `${from} to ${to}` : match;
+  });
+}
+
+function speakNumbers(text: string): string {
+  return speakRanges(text
+    // 1,234,567 -> 1234567 so engines don't pause at each comma
+    .replace(/\b\d{1,3}(?:,\d{3})+\b/g, (number) => number.replace(/,/g, ''))
+    .replace(/\b(\d+(?:\.\d+)?)(k|bn|b)\b/gi, (_match, number: string, suffix: string) =>
+      `${number} ${SCALE_WORDS[suffix.toLowerCase()]}`
+    )
+    .replace(/\b(\d+(?:\.\d+)?)M\b/g, '$1 million')
+    .replace(/(\d)\s?%/g, '$1 percent')
+    .replace(/(^|\s)#(\d+)\b/g, '$1number $2')
+    .replace(/\b(\d+)\s?x\b/gi, '$1 times'));
+}
+
+export const NORMALIZATION_RULES: NormalizationRule[] = [
+  {
+    id: 'mentions',
+    label: 'Read r/ and u/ mentions',
+    apply: speakMentions,
+    examples: [
+      { input: 'Try asking in r/AskHistorians', output: 'Try asking in r slash AskHistorians' },
+      { input: 'ping /u/spez', output: 'ping u slash spez' }
+    ]
+  },
+  {
+    id: 'slang',
+    label: 'Expand Reddit slang',
+    apply: expandSlang,
+    examples: [
+      { input: 'TIL that IIRC was wrong', output: 'today I learned that if I remember correctly was wrong' },
+      { input: 'OP is right, AFAIK', output: 'original poster is right, as far as I know' },
+      { input: 'Great plan /s', output: 'Great plan (sarcasm)' },
+      { input: 'wait til tomorrow', output: 'wait til tomorrow' },
+      { input: 'Imo this is ok', output: 'Imo this is ok' }
+    ]
+  },
+  {
+    id: 'emojiWords',
+    label: 'Read common emoji as words',
+    apply: emojiToWords,
+    examples: [
+      { input: 'That got me 😂😂😂', output: 'That got me (laughing)' },
+      { input: 'Nice work 👍🏽!', output: 'Nice work (thumbs up)!' }
+    ]
+  },
+  {
+    id: 'dropEmoji',
+    label: 'Drop remaining emoji',
+    apply: dropEmoji,
+    examples: [
+      { input: 'Road trip 🚗🌄 tomorrow', output: 'Road trip tomorrow' }
+    ]
+  },
+  {
+    id: 'punctuation',
+    label: 'Collapse repeated punctuation',
+    apply: collapsePunctuation,
+    examples: [
+      { input: 'What?!?! No way!!!', output: 'What? No way!' },
+      { input: 'Well.......', output: 'Well...' }
+    ]
+  },
+  {
+    id: 'currency',
+    label: 'Read money amounts',
+    apply: speakCurrency,
+    examples: [
+      { input: 'It cost $4.99', output: 'It cost 4 dollars and 99 cents' },
+      { input: 'a $2.5M house', output: 'a 2.5 million dollars house' },
+      { input: '£1 each', output: '1 pound each' }
+    ]
+  },
+  {
+    id: 'times',
+    label: 'Read times of day',
+    apply: speakTimes,
+    examples: [
+      { input: 'Meet at 3:30pm', output: 'Meet at 3 30 PM' },
+      { input: 'from 9:05 until 10:00', output: 'from 9 oh 5 until 10 o\'clock' },
+      { input: 'Doors open at 7 p.m.', output: 'Doors open at 7 PM' }
+    ]
+  },
+  {
+    id: 'numbers',
+    label: 'Read numbers',
+    apply: speakNumbers,
+    examples: [
+      { input: '1,250,000 people', output: '1250000 people' },
+      { input: '5k upvotes, 90% agree', output: '5 thousand upvotes, 90 percent agree' },
+      { input: 'pages 10-20', output: 'pages 10 to 20' },
+      { input: 'takes 2-3 days', output: 'takes 2 to 3 days' },
+      { input: 'released 2023-10-12', output: 'released 2023-10-12' },
+      { input: 'call 555-1234', output: 'call 555-1234' },
+      { input: 'they won 5-0', output: 'they won 5-0' }
+    ]
+  }
+];
+
+export const DEFAULT_NORMALIZATION: NormalizationSettings = {
+  mentions: true,
+  slang: true,
+  emojiWords: true,
+  dropEmoji: true,
+  punctuation: true,
+  currency: true,
+  times: true,
+  numbers: true
+};
+
+/**
+ * Run the enabled rules over text, in order
+ */
+export function normalizeText(text: string, settings: NormalizationSettings): string {
+  return NORMALIZATION_RULES.reduce(
+    (result, rule) => settings[rule.id] ? rule.apply(result) : result,
+    text
+  );
+}
+
+/**
+ * Examples whose rule no longer produces the documented output
+ */
+export function findFailingExamples(): Array<NormalizationExample & { id: NormalizationRuleId; actual: string }> {
+  return NORMALIZATION_RULES.flatMap(rule =>
+    rule.examples
+      .map(example => ({ ...example, id: rule.id, actual: rule.apply(example.input) }))
+      .filter(result => result.actual !== result.output)
+  );
+}
@@ -1,219 +1,882 @@
 // src/playback/playback.ts
 
+import { ContentItem, ContentType } from '../types';
+import { splitIntoChunks } from './chunking';
+import { SpokenWordMap, mapSpokenWords } from './wordAlignment';
+import { VoicePins, authorKey, buildVoiceMap, voiceForAuthor } from './voiceAssignment';
+import {
+  DEFAULT_LANGUAGE_SETTINGS,
+  LANGUAGE_NAMES,
+  LanguageSettings,
+  detectLanguage,
+  languageOf
+} from './languageDetection';
+import { TtsBackend, TtsUtterance, TtsVoice } from './backends';
+import { WebSpeechBackend } from './backends/webSpeech';
+
 /**
- * TTS Playback Engine using Web Speech API
- * Reads comments aloud sequentially with play/pause/stop controls
+ * TTS Playback Engine. Speech comes from a pluggable backend (Web Speech by default).
+ * Reads the post title, body and comments aloud sequentially with play/pause/stop controls.
+ * Each item is spoken sentence by sentence, so the position is tracked inside the item.
+ * This is the only place speech is driven from. It runs in the offscreen document; the
+ * background worker relays controls to it and its highlights back to the page.
  */
 
 export interface PlaybackState {
   isPlaying: boolean;
   isPaused: boolean;
   currentIndex: number;
-  totalComments: number;
+  currentChunk: number;
+  totalChunks: number;
+  totalItems: number;
+  currentType: ContentType | null;
+  speed: number;
+  useUniqueVoices: boolean;
+  voiceCount: number;
+  voiceLocale: string;
+}
+
+/**
+ * One sentence of an item as the engine would speak it. Narration is spoken
+ * around the item's text rather than taken from it (announcements, skip notices).
+ */
+export interface ScriptUtterance extends TtsUtterance {
+  narration: boolean;
+}
+
+/**
+ * How an item is read: its text after normalization and every utterance
+ */
+export interface ItemScript {
+  item: ContentItem;
+  text: string;
+  utterances: ScriptUtterance[];
+}
+
+/**
+ * Hooks used to visually follow along with the item being read
+ */
+export interface PlaybackHighlighter {
+  highlight(item: ContentItem, index: number): void;
+  clear(): void;
+
+  /**
+   * Called for each spoken word; offsets are into the item's text
+   */
+  highlightWord?(item: ContentItem, index: number, word: WordBoundary): void;
 }
 
+export interface WordBoundary {
+  start: number;
+  length: number;
+  word: string;
+}
+
+export interface PlaybackEventMap {
+  stateChange: PlaybackState;
+  itemStart: { item: ContentItem; index: number };
+  chunkStart: { item: ContentItem; index: number; chunk: number; text: string };
+  wordBoundary: { item: ContentItem; index: number; boundary: WordBoundary };
+  itemEnd: { item: ContentItem; index: number };
+  finished: void;
+  error: { item: ContentItem; index: number; error: string };
+}
+
+type PlaybackListener<K extends keyof PlaybackEventMap> = (payload: PlaybackEventMap[K]) => void;
+
+/**
+ * Identifies an item across extractions: comments by id, the post parts by type
+ */
+export function getItemKey(item: ContentItem): string {
+  return item.id || item.type;
+}
+
+/**
+ * Swap in a re-extracted item list while keeping the item at `index`: it moves
+ * to its new position, or, when the new list no longer has it, is put back in
+ * front of the next item that is still there so reading carries on from it.
+ */
+export function mergeKeepingCurrent(
+  previous: ContentItem[],
+  index: number,
+  items: ContentItem[]
+): { items: ContentItem[]; index: number } {
+  const current = previous[index];
+  if (!current) return { items, index: Math.max(0, Math.min(index, items.length - 1)) };
+
+  const positions = new Map(items.map((item, i) => [getItemKey(item), i]));
+  const found = positions.get(getItemKey(current));
+  if (found !== undefined) return { items, index: found };
+
+  const next = previous.slice(index + 1).find(item => positions.has(getItemKey(item)));
+  const at = next ? positions.get(getItemKey(next))! : items.length;
+  return { items: [...items.slice(0, at), current, ...items.slice(at)], index: at };
+}
+
+/**
+ * Narration spoken before an item (e.g. "u/someone says"); '' for none
+ */
+export type Announcer = (items: ContentItem[], index: number) => string;
+
+/**
+ * Rewrites item text into what should actually be spoken
+ */
+export type TextNormalizer = (text: string) => string;
+
 export class PlaybackEngine {
-  private synthesis: SpeechSynthesis;
-  private utterance: SpeechSynthesisUtterance | null = null;
-  private comments: Array<{ text: string; author: string | null }> = [];
+  private backend: TtsBackend;
+  private unsubscribeVoices: () => void = () => {};
+  private utterance: TtsUtterance | null = null;
+  private items: ContentItem[] = [];
+  private voiceOrder: ContentItem[] = [];   // items in the order they arrived, which voices are dealt in
   private currentIndex: number = 0;
+  private chunks: string[] = [];
+  private chunkOffsets: number[] = [];
+  private wordMap: SpokenWordMap | null = null;   // spoken word -> item text, built on the first boundary
+  private currentChunk: number = 0;
   private playbackSpeed: number = 1.0;
-  private onStateChange: ((state: PlaybackState) => void) | null = null;
-  private onCommentChange: ((index: number) => void) | null = null;
+  private isPlaying: boolean = false;
+  private isPaused: boolean = false;
+  private highlighter: PlaybackHighlighter | null = null;
+  private announcer: Announcer | null = null;
+  private normalizer: TextNormalizer | null = null;
+  private listeners: { [K in keyof PlaybackEventMap]?: Array<PlaybackListener<K>> } = {};
+
+  // Voices
+  private availableVoices: TtsVoice[] = [];
+  private filteredVoices: TtsVoice[] = [];
+  private selectedVoiceNames: string[] = [];
+  private useUniqueVoices: boolean = true;
+  private voiceLocale: string = 'en-US';
+  private voicePins: VoicePins = {};
+  private voiceMap: Map<string, string> | null = null;
+  private languageSettings: LanguageSettings = DEFAULT_LANGUAGE_SETTINGS;
+  private itemLanguages = new Map<number, string | null>();
 
-  constructor() {
-    this.synthesis = window.speechSynthesis;
+  constructor(backend: TtsBackend = new WebSpeechBackend()) {
+    this.backend = backend;
+    this.attachBackend();
     console.log('🔊 Playback Engine initialized');
   }
 
   /**
-   * Load comments for playback
+   * Switch speech backends. A sentence being spoken restarts on the new one.
+   */
+  public setBackend(backend: TtsBackend) {
+    console.log(`🔈 Switching speech backend to ${backend.kind}`);
+    const wasSpeaking = this.isPlaying && !this.isPaused;
+
+    this.cancelUtterance();
+    this.unsubscribeVoices();
+    this.backend = backend;
+    this.availableVoices = [];
+    this.filteredVoices = [];
+    this.voiceMap = null;
+    this.attachBackend();
+
+    if (wasSpeaking && this.chunks.length > 0) {
+      this.speakChunk();
+    }
+  }
+
+  private attachBackend() {
+    const backend = this.backend;
+    this.unsubscribeVoices = backend.onVoicesChanged(() => this.loadVoices(backend));
+    this.loadVoices(backend);
+  }
+
+  /**
+   * Subscribe to an engine event. Returns an unsubscribe function.
+   */
+  public on<K extends keyof PlaybackEventMap>(event: K, listener: PlaybackListener<K>): () => void {
+    const list = (this.listeners[event] || []) as Array<PlaybackListener<K>>;
+    list.push(listener);
+    (this.listeners as Record<K, Array<PlaybackListener<K>>>)[event] = list;
+    return () => this.off(event, listener);
+  }
+
+  public off<K extends keyof PlaybackEventMap>(event: K, listener: PlaybackListener<K>) {
+    const list = this.listeners[event] as Array<PlaybackListener<K>> | undefined;
+    if (!list) return;
+    const index = list.indexOf(listener);
+    if (index >= 0) list.splice(index, 1);
+  }
+
+  /**
+   * Set the hooks used to highlight the item being read
+   */
+  public setHighlighter(highlighter: PlaybackHighlighter | null) {
+    this.highlighter = highlighter;
+  }
+
+  /**
+   * Set the narration spoken before each item. Applies from the next item.
+   */
+  public setAnnouncer(announcer: Announcer | null) {
+    this.announcer = announcer;
+  }
+
+  /**
+   * Set the text normalization applied before speaking. Applies from the next item.
    */
-  public loadComments(comments: Array<{ text: string; author: string | null }>) {
-    console.log(`📥 Loading ${comments.length} comments for playback`);
-    this.comments = comments;
+  public setNormalizer(normalizer: TextNormalizer | null) {
+    this.normalizer = normalizer;
+  }
+
+  /**
+   * Load content items for playback
+   */
+  public load(items: ContentItem[]) {
+    console.log(`📥 Loading ${items.length} items for playback`);
+    this.cancelUtterance();
+    this.items = items;
+    this.voiceOrder = items;
+    this.voiceMap = null;
+    this.itemLanguages.clear();
     this.currentIndex = 0;
+    this.chunks = [];
+    this.currentChunk = 0;
+    this.isPlaying = false;
+    this.isPaused = false;
+    this.emitStateChange();
+  }
+
+  /**
+   * Take a longer copy of the loaded thread with comments the page loaded since.
+   * The item being read stays current and keeps its sentence, and authors
+   * already heard keep their voices; new items play wherever they were inserted.
+   */
+  public mergeItems(items: ContentItem[]) {
+    const known = new Set(this.items.map(getItemKey));
+    const added = items.filter(item => !known.has(getItemKey(item)));
+    if (added.length === 0) return;
+
+    console.log(`📥 Merging ${added.length} newly loaded items`);
+    const merged = mergeKeepingCurrent(this.items, this.currentIndex, items);
+    this.items = merged.items;
+    this.currentIndex = merged.index;
+    this.voiceOrder = [...this.voiceOrder, ...added];
+    this.voiceMap = null;
+    this.itemLanguages.clear();
     this.emitStateChange();
   }
 
+  public getItems(): ContentItem[] {
+    return this.items;
+  }
+
+  public getBackend(): TtsBackend {
+    return this.backend;
+  }
+
+  /**
+   * Everything reading an item would say, sentence by sentence, with the voice
+   * for each - for rendering the thread somewhere other than the speakers
+   */
+  public getScript(index: number): ItemScript {
+    const { chunks, offsets } = this.buildChunks(index);
+    return {
+      item: this.items[index],
+      text: this.getSpokenText(index).text,
+      utterances: chunks.map((text, chunk) => {
+        const narration = offsets[chunk] < 0;
+        return { text, ...this.chooseVoice(index, narration), rate: 1, narration };
+      })
+    };
+  }
+
   /**
    * Start or resume playback
    */
   public play() {
     console.log('▶️  Play');
 
-    if (this.comments.length === 0) {
-      console.warn('⚠️  No comments loaded');
+    if (this.items.length === 0) {
+      console.warn('⚠️  No content loaded');
       return;
     }
 
-    // If paused, resume
-    if (this.synthesis.paused) {
-      console.log('▶️  Resuming from pause');
-      this.synthesis.resume();
-      this.emitStateChange();
+    // If paused, resume from the start of the interrupted sentence
+    if (this.isPaused && this.chunks.length > 0) {
+      console.log(`▶️  Resuming from sentence ${this.currentChunk + 1}`);
+      this.speakChunk();
       return;
     }
 
     // If already speaking, don't start again
-    if (this.synthesis.speaking) {
+    if (this.isPlaying) {
       console.log('⚠️  Already speaking');
       return;
     }
 
-    // Start reading from current index
-    this.readComment(this.currentIndex);
+    // Start reading from the current position
+    this.readItem(this.currentIndex, this.currentChunk);
   }
 
   /**
-   * Pause playback
+   * Pause playback. Speech is cancelled rather than paused (Chrome drops long
+   * paused utterances); play() restarts the current sentence.
    */
   public pause() {
     console.log('⏸️  Pause');
-    if (this.synthesis.speaking && !this.synthesis.paused) {
-      this.synthesis.pause();
+    if (this.isPlaying) {
+      this.cancelUtterance();
+      this.isPaused = true;
+      this.isPlaying = false;
       this.emitStateChange();
     }
   }
 
   /**
-   * Stop playback completely
+   * Stop playback completely and rewind to the start
    */
   public stop() {
     console.log('⏹️  Stop');
-    this.synthesis.cancel();
+    this.cancelUtterance();
     this.currentIndex = 0;
-    this.utterance = null;
+    this.chunks = [];
+    this.currentChunk = 0;
+    this.isPlaying = false;
+    this.isPaused = false;
+    this.highlighter?.clear();
     this.emitStateChange();
   }
 
   /**
-   * Go to next comment
+   * Go to next item
    */
   public next() {
     console.log('⏭️  Next');
-    this.synthesis.cancel();
 
-    if (this.currentIndex < this.comments.length - 1) {
-      this.currentIndex++;
-      this.readComment(this.currentIndex);
+    if (this.currentIndex < this.items.length - 1) {
+      this.cancelUtterance();
+      this.readItem(this.currentIndex + 1);
     } else {
-      console.log('📍 Already at last comment');
-      this.stop();
+      console.log('📍 Already at last item');
     }
   }
 
   /**
-   * Go to previous comment
+   * Go to previous item (restarts the first item when already there)
    */
   public previous() {
     console.log('⏮️  Previous');
-    this.synthesis.cancel();
+    this.cancelUtterance();
+
+    this.readItem(Math.max(0, this.currentIndex - 1));
+  }
+
+  /**
+   * Skip the rest of the current thread and go to the next top-level comment
+   */
+  public nextThread() {
+    console.log('⏭️  Next thread');
 
-    if (this.currentIndex > 0) {
-      this.currentIndex--;
-      this.readComment(this.currentIndex);
+    const target = this.findItem(1, depth => depth === 0);
+    if (target >= 0) {
+      this.jumpTo(target);
     } else {
-      console.log('📍 Already at first comment');
-      this.currentIndex = 0;
-      this.readComment(this.currentIndex);
+      console.log('📍 Already in the last thread');
     }
   }
 
   /**
-   * Set playback speed (0.5 - 2.0)
+   * Skip the current comment's replies: the next item no deeper than this one
+   */
+  public skipReplies() {
+    console.log('↷ Skip replies');
+
+    const depth = this.getDepth(this.currentIndex);
+    if (depth < 0) {
+      // The title and body have no replies
+      this.next();
+      return;
+    }
+
+    const target = this.findItem(1, itemDepth => itemDepth <= depth);
+    if (target >= 0) {
+      this.jumpTo(target);
+    } else {
+      console.log('📍 No more items after this reply chain');
+    }
+  }
+
+  /**
+   * Go back to the comment this one replies to
+   */
+  public parent() {
+    console.log('↰ Parent');
+
+    const depth = this.getDepth(this.currentIndex);
+    const target = depth > 0 ? this.findItem(-1, itemDepth => itemDepth === depth - 1) : -1;
+    if (target >= 0) {
+      this.jumpTo(target);
+    } else {
+      console.log('📍 Not a reply');
+    }
+  }
+
+  /**
+   * Restart the current thread from its top-level comment
+   */
+  public restartThread() {
+    console.log('↺ Restart thread');
+
+    const target = this.getDepth(this.currentIndex) === 0
+      ? this.currentIndex
+      : this.findItem(-1, depth => depth === 0);
+    if (target >= 0) {
+      this.jumpTo(target);
+    } else {
+      console.log('📍 Not inside a comment thread');
+    }
+  }
+
+  /**
+   * Skip to the next sentence (or the next item after the last sentence)
+   */
+  public nextSentence() {
+    console.log('⏩ Next sentence');
+
+    if (this.chunks.length > 0 && this.currentChunk < this.chunks.length - 1) {
+      this.cancelUtterance();
+      this.currentChunk++;
+      this.speakChunk();
+    } else {
+      this.next();
+    }
+  }
+
+  /**
+   * Go back one sentence (into the previous item's last sentence when at the start)
+   */
+  public previousSentence() {
+    console.log('⏪ Previous sentence');
+    this.cancelUtterance();
+
+    if (this.chunks.length > 0 && this.currentChunk > 0) {
+      this.currentChunk--;
+      this.speakChunk();
+    } else if (this.currentIndex > 0) {
+      this.readItem(this.currentIndex - 1, Number.MAX_SAFE_INTEGER);
+    } else {
+      this.readItem(0, 0);
+    }
+  }
+
+  /**
+   * Comment nesting depth, with the title and body above every thread (-1)
+   */
+  private getDepth(index: number): number {
+    const item = this.items[index];
+    if (!item || item.type !== 'comment') return -1;
+    return item.depth || 0;
+  }
+
+  /**
+   * Nearest comment before (-1) or after (1) the current item whose depth matches
+   */
+  private findItem(direction: 1 | -1, matches: (depth: number) => boolean): number {
+    for (let index = this.currentIndex + direction; index >= 0 && index < this.items.length; index += direction) {
+      if (this.items[index].type === 'comment' && matches(this.getDepth(index))) {
+        return index;
+      }
+    }
+    return -1;
+  }
+
+  private jumpTo(index: number) {
+    this.cancelUtterance();
+    this.readItem(index);
+  }
+
+  /**
+   * Move to a position without speaking (e.g. restoring after a reload)
+   */
+  public setPosition(index: number, chunk: number = 0) {
+    if (index < 0 || index >= this.items.length) return;
+
+    this.cancelUtterance();
+    this.currentIndex = index;
+    this.chunks = [];
+    this.currentChunk = Math.max(0, chunk);
+    this.isPlaying = false;
+    this.isPaused = false;
+    this.emitStateChange();
+  }
+
+  /**
+   * Jump to any item and continue playing from there
+   */
+  public seek(index: number) {
+    console.log(`⏩ Seek to item ${index + 1}`);
+
+    if (!Number.isInteger(index) || index < 0 || index >= this.items.length) {
+      console.warn(`⚠️  Invalid seek index: ${index}`);
+      return;
+    }
+
+    this.cancelUtterance();
+    this.readItem(index);
+  }
+
+  /**
+   * Set playback speed (0.5 - 2.0). Applies from the next utterance.
    */
   public setSpeed(speed: number) {
     console.log(`🎚️  Setting speed to ${speed}x`);
     this.playbackSpeed = Math.max(0.5, Math.min(2.0, speed));
+    this.emitStateChange();
+  }
 
-    // If currently speaking, update the current utterance
-    if (this.utterance) {
-      this.utterance.rate = this.playbackSpeed;
-    }
+  public setUniqueVoices(enabled: boolean) {
+    this.useUniqueVoices = enabled;
+    this.emitStateChange();
+  }
+
+  /**
+   * Restrict unique-voice rotation to these voice names (empty = all voices)
+   */
+  public setSelectedVoices(names: string[]) {
+    this.selectedVoiceNames = names;
+    this.voiceMap = null;
+    this.emitStateChange();
+  }
+
+  /**
+   * Authors who always get a particular voice, overriding the hashed assignment
+   */
+  public setVoicePins(pins: VoicePins) {
+    this.voicePins = Object.fromEntries(
+      Object.entries(pins).map(([author, voice]) => [authorKey(author), voice])
+    );
+    this.voiceMap = null;
+  }
+
+  public setVoiceLocale(locale: string) {
+    this.voiceLocale = locale;
+    this.filterVoices();
+    this.itemLanguages.clear();
+    this.emitStateChange();
+  }
+
+  /**
+   * Per-comment language detection and what to do when no voice speaks the language
+   */
+  public setLanguageSettings(settings: LanguageSettings) {
+    this.languageSettings = settings;
+    this.itemLanguages.clear();
   }
 
   /**
    * Get current playback state
    */
   public getState(): PlaybackState {
+    const currentItem = this.items[this.currentIndex];
+    const totalChunks = this.chunks.length || (currentItem ? this.buildChunks(this.currentIndex).chunks.length : 0);
+
     return {
-      isPlaying: this.synthesis.speaking && !this.synthesis.paused,
-      isPaused: this.synthesis.paused,
+      isPlaying: this.isPlaying && !this.isPaused,
+      isPaused: this.isPaused,
       currentIndex: this.currentIndex,
-      totalComments: this.comments.length
+      currentChunk: this.currentChunk,
+      totalChunks,
+      totalItems: this.items.length,
+      currentType: currentItem?.type || null,
+      speed: this.playbackSpeed,
+      useUniqueVoices: this.useUniqueVoices,
+      voiceCount: this.getVoicePool().length,
+      voiceLocale: this.voiceLocale
     };
   }
 
   /**
-   * Set callback for state changes
+   * Stop speaking and release the page (navigation, unload)
+   */
+  public cleanup() {
+    this.cancelUtterance();
+    this.highlighter?.clear();
+    this.isPlaying = false;
+    this.isPaused = false;
+    this.emitStateChange();
+  }
+
+  private loadVoices(backend: TtsBackend) {
+    backend.getVoices()
+      .then(voices => {
+        // A slow voice list from a backend that has since been replaced
+        if (this.backend !== backend) return;
+        this.availableVoices = voices;
+        this.filterVoices();
+        this.emitStateChange();
+      })
+      .catch(error => console.error('❌ Failed to load voices:', error));
+  }
+
+  private filterVoices() {
+    // Any region of the locale's language: en-US listeners still get en-GB and en-AU voices.
+    // Voices of unknown language (some local servers don't say) are kept too.
+    const language = languageOf(this.voiceLocale);
+    this.filteredVoices = this.availableVoices.filter(voice => !voice.lang || languageOf(voice.lang) === language);
+
+    if (this.filteredVoices.length === 0) {
+      this.filteredVoices = this.availableVoices;
+    }
+
+    this.voiceMap = null;
+
+    console.log(`🎤 Total voices: ${this.availableVoices.length}`);
+    console.log(`🌍 Voices for ${this.voiceLocale}: ${this.filteredVoices.length}`);
+  }
+
+  /**
+   * Voices eligible for rotation: the user's selection in the order it was made
+   * (the first one is OP's), or every filtered voice
+   */
+  private getVoicePool(): TtsVoice[] {
+    if (this.selectedVoiceNames.length > 0) {
+      const selected = this.selectedVoiceNames
+        .map(name => this.filteredVoices.find(v => v.name === name))
+        .filter((voice): voice is TtsVoice => voice !== undefined);
+      if (selected.length > 0) {
+        return selected;
+      }
+    }
+    return this.filteredVoices;
+  }
+
+  private getVoiceForIndex(index: number): TtsVoice | null {
+    const pool = this.getVoicePool();
+    if (pool.length === 0) {
+      return null;
+    }
+
+    // A single shared voice when unique voices are off, unless the author is pinned
+    const key = authorKey(this.items[index]?.author);
+    const voiceName = this.useUniqueVoices ? this.getVoiceMap(pool).get(key) : this.voicePins[key];
+    const voice = voiceName ? this.availableVoices.find(v => v.name === voiceName) : undefined;
+
+    return voice || pool[0];
+  }
+
+  private voicesForLanguage(language: string): TtsVoice[] {
+    return this.availableVoices.filter(voice => languageOf(voice.lang) === language);
+  }
+
+  /**
+   * Detected language of an item when it differs from the thread's locale, else null
+   */
+  private getItemLanguage(index: number): string | null {
+    if (!this.languageSettings.detect) return null;
+
+    if (!this.itemLanguages.has(index)) {
+      const item = this.items[index];
+      const detected = item ? detectLanguage(item.text) : null;
+      this.itemLanguages.set(index, detected && detected !== languageOf(this.voiceLocale) ? detected : null);
+    }
+    return this.itemLanguages.get(index) ?? null;
+  }
+
+  /**
+   * Voice and language for one utterance. Comments in another language get a
+   * voice that speaks it; narration always uses the author's usual voice.
    */
-  public onStateChangeCallback(callback: (state: PlaybackState) => void) {
-    this.onStateChange = callback;
+  private chooseVoice(index: number, isNarration: boolean): { voice: TtsVoice | null; lang: string } {
+    const usual = { voice: this.getVoiceForIndex(index), lang: this.voiceLocale };
+    if (isNarration) return usual;
+
+    const language = this.getItemLanguage(index);
+    if (!language) return usual;
+
+    const voice = voiceForAuthor(this.items[index]?.author, this.voicesForLanguage(language));
+    return voice ? { voice, lang: voice.lang } : usual;
+  }
+
+  private getVoiceMap(pool: TtsVoice[]): Map<string, string> {
+    if (!this.voiceMap) {
+      this.voiceMap = buildVoiceMap(this.voiceOrder, pool.map(v => v.name), this.voicePins);
+    }
+    return this.voiceMap;
   }
 
   /**
-   * Set callback for comment changes
+   * Cancel the current utterance without letting its end/error handlers advance the queue
    */
-  public onCommentChangeCallback(callback: (index: number) => void) {
-    this.onCommentChange = callback;
+  private cancelUtterance() {
+    this.utterance = null;
+    this.backend.cancel();
   }
 
   /**
-   * Read a specific comment
+   * Read a specific item, starting at the given sentence
    */
-  private readComment(index: number) {
-    if (index < 0 || index >= this.comments.length) {
-      console.warn(`⚠️  Invalid comment index: ${index}`);
+  private readItem(index: number, chunk: number = 0) {
+    if (index < 0 || index >= this.items.length) {
+      console.warn(`⚠️  Invalid item index: ${index}`);
       return;
     }
 
-    const comment = this.comments[index];
-    console.log(`🗣️  Reading comment ${index + 1}/${this.comments.length}`);
-    console.log(`👤 Author: ${comment.author || 'Unknown'}`);
-    console.log(`💬 Text preview: ${comment.text.substring(0, 50)}...`);
+    const item = this.items[index];
+    const { chunks, offsets } = this.buildChunks(index);
+    this.currentIndex = index;
+    this.chunks = chunks;
+    this.chunkOffsets = offsets;
+    this.wordMap = null;
+    this.currentChunk = Math.min(Math.max(0, chunk), this.chunks.length - 1);
 
-    // Notify about comment change
-    if (this.onCommentChange) {
-      this.onCommentChange(index);
-    }
+    console.log(`🗣️  Reading ${item.type} ${index + 1}/${this.items.length} (${this.chunks.length} sentences)`);
 
-    // Create utterance
-    this.utterance = new SpeechSynthesisUtterance(comment.text);
-    this.utterance.rate = this.playbackSpeed;
-    this.utterance.pitch = 1.0;
-    this.utterance.volume = 1.0;
+    this.highlighter?.highlight(item, index);
+    this.emit('itemStart', { item, index });
 
-    // When this comment finishes, move to next
-    this.utterance.onend = () => {
-      console.log('✅ Comment finished');
+    this.speakChunk();
+  }
 
-      // Auto-advance to next comment
-      if (this.currentIndex < this.comments.length - 1) {
-        this.currentIndex++;
-        setTimeout(() => this.readComment(this.currentIndex), 100);
-      } else {
-        console.log('🎉 Reached end of comments');
-        this.stop();
-      }
-    };
+  /**
+   * Sentences to speak for an item, led by its announcement. The announcement
+   * isn't part of the item text, so its offset is -1. Offsets index the
+   * normalized text; word boundaries are mapped back to the item text.
+   */
+  private buildChunks(index: number): { chunks: string[]; offsets: number[] } {
+    const { text, skipped } = this.getSpokenText(index);
+    const announcement = this.announcer?.(this.items, index) || '';
+    const narration = announcement ? [announcement] : [];
 
-    this.utterance.onerror = (event) => {
-      console.error('❌ Speech error:', event);
-      this.emitStateChange();
+    if (skipped) {
+      return { chunks: [...narration, text], offsets: [...narration.map(() => -1), -1] };
+    }
+
+    const chunks = splitIntoChunks(text);
+    return {
+      chunks: [...narration, ...chunks],
+      offsets: [...narration.map(() => -1), ...this.locateChunks(text, chunks)]
     };
+  }
 
-    // Start speaking
-    this.synthesis.speak(this.utterance);
+  /**
+   * The item's text as it is read: normalized, or replaced by a notice when
+   * no voice speaks the comment's language
+   */
+  private getSpokenText(index: number): { text: string; skipped: boolean } {
+    const item = this.items[index];
+
+    // Say so instead of mangling it
+    const language = this.getItemLanguage(index);
+    if (language && this.languageSettings.fallback === 'announceSkip' && this.voicesForLanguage(language).length === 0) {
+      return { text: `Skipping a comment in ${LANGUAGE_NAMES[language] || language}`, skipped: true };
+    }
+
+    return { text: this.normalizer ? this.normalizer(item.text) : item.text, skipped: false };
+  }
+
+  /**
+   * Offset of each chunk within the item text (chunks are trimmed, in order)
+   */
+  private locateChunks(text: string, chunks: string[]): number[] {
+    let cursor = 0;
+    return chunks.map(chunk => {
+      const offset = text.indexOf(chunk, cursor);
+      if (offset < 0) return cursor;
+      cursor = offset + chunk.length;
+      return offset;
+    });
+  }
+
+  /**
+   * Speak the current sentence of the current item
+   */
+  private speakChunk() {
+    const index = this.currentIndex;
+    const item = this.items[index];
+    const chunk = this.currentChunk;
+    const text = this.chunks[chunk];
+
+    this.emit('chunkStart', { item, index, chunk, text });
+
+    const { voice, lang } = this.chooseVoice(index, this.chunkOffsets[chunk] < 0);
+    const utterance: TtsUtterance = { text, voice, lang, rate: this.playbackSpeed };
+
+    this.utterance = utterance;
+    this.backend.speak(utterance, {
+      // Follow along word by word (not every voice reports boundaries)
+      onBoundary: (charIndex) => {
+        if (this.utterance !== utterance) return;
+        if (this.chunkOffsets[chunk] < 0) return;
+
+        const word = text.slice(charIndex).match(/^\S+/)?.[0] || '';
+        if (!word) return;
+
+        // Normalization rewrites words, so report where the word came from
+        if (!this.wordMap) this.wordMap = mapSpokenWords(item.text, this.getSpokenText(this.currentIndex).text);
+        const source = this.wordMap(this.chunkOffsets[chunk] + charIndex);
+        if (!source) return;
+
+        const boundary: WordBoundary = {
+          start: source.start,
+          length: source.length,
+          word: item.text.slice(source.start, source.start + source.length)
+        };
+        this.highlighter?.highlightWord?.(item, this.currentIndex, boundary);
+        this.emit('wordBoundary', { item, index: this.currentIndex, boundary });
+      },
+
+      // When this sentence finishes, move to the next sentence or item
+      onEnd: () => {
+        // Cancelled utterances may also end - only the live one may advance
+        if (this.utterance !== utterance) return;
+
+        if (this.currentChunk < this.chunks.length - 1) {
+          this.currentChunk++;
+          this.speakChunk();
+          return;
+        }
+
+        this.emit('itemEnd', { item, index: this.currentIndex });
+
+        if (this.currentIndex < this.items.length - 1) {
+          setTimeout(() => {
+            // Skip if a control (next, stop, ...) took over during the gap. Merges
+            // may have moved the item, so advance from where it is now.
+            if (this.utterance === utterance) this.readItem(this.currentIndex + 1);
+          }, 100);
+        } else {
+          console.log('🎉 Finished all content');
+          this.utterance = null;
+          this.isPlaying = false;
+          this.isPaused = false;
+          this.highlighter?.clear();
+          this.emitStateChange();
+          this.emit('finished', undefined);
+        }
+      },
+
+      onError: (error) => {
+        if (this.utterance !== utterance) return;
+
+        console.error('❌ Speech error:', error);
+        this.utterance = null;
+        this.isPlaying = false;
+        this.isPaused = false;
+        this.emitStateChange();
+        this.emit('error', { item, index: this.currentIndex, error });
+      }
+    });
+
+    this.isPlaying = true;
+    this.isPaused = false;
     this.emitStateChange();
   }
 
+  private emit<K extends keyof PlaybackEventMap>(event: K, payload: PlaybackEventMap[K]) {
+    const list = this.listeners[event] as Array<PlaybackListener<K>> | undefined;
+    if (!list) return;
+    list.slice().forEach(listener => listener(payload));
+  }
+
   /**
-   * Emit state change to callback
+   * Emit state change to listeners
    */
   private emitStateChange() {
-    if (this.onStateChange) {
-      this.onStateChange(this.getState());
-    }
+    this.emit('stateChange', this.getState());
   }
-}
\ No newline at end of file
+}
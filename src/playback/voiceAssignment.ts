@@ -0,0 +1,93 @@
+// src/playback/voiceAssignment.ts
+
+import { ContentItem } from '../types';
+
+/**
+ * Which voice reads each author. Every author keeps one voice for the whole
+ * thread, picked from a hash of their name so it doesn't depend on where their
+ * comments fall. The first voice in the pool is reserved for OP (who also reads
+ * the title and body), deleted authors share a neutral voice, and pinned
+ * authors always get the voice the user chose.
+ */
+
+/**
+ * Author name (lowercase) -> voice name
+ */
+export type VoicePins = Record<string, string>;
+
+const DELETED_KEY = '[deleted]';
+
+/**
+ * FNV-1a: cheap, and spreads similar names ("user1", "user2") apart
+ */
+function hashAuthor(author: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < author.length; i++) {
+    hash ^= author.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function authorKey(author: string | null | undefined): string {
+  const name = (author || '').trim().toLowerCase();
+  return !name || name === 'deleted' || name === DELETED_KEY ? DELETED_KEY : name;
+}
+
+/**
+ * The same author always lands on the same voice from a list
+ */
+export function voiceForAuthor<T>(author: string | null | undefined, voices: T[]): T | null {
+  if (voices.length === 0) return null;
+  return voices[hashAuthor(authorKey(author)) % voices.length];
+}
+
+function findOpKey(items: ContentItem[]): string | null {
+  const post = items.find(item => item.type === 'title' || item.type === 'body');
+  return post?.author ? authorKey(post.author) : null;
+}
+
+/**
+ * Voice names for every author in the thread.
+ * Authors are placed in order of first appearance at their hashed slot; when
+ * that voice is taken and a free one remains, they probe to the next free
+ * voice, so people in a short back-and-forth never share a voice.
+ */
+export function buildVoiceMap(items: ContentItem[], pool: string[], pins: VoicePins): Map<string, string> {
+  const voices = new Map<string, string>();
+  if (pool.length === 0) return voices;
+
+  const opKey = findOpKey(items);
+  const opVoice = pool[0];
+  const others = pool.length > 1 ? pool.slice(1) : pool;
+  const used = new Set<string>();
+
+  if (opKey) voices.set(opKey, opVoice);
+  voices.set(DELETED_KEY, others[0]);
+  used.add(others[0]);
+
+  Object.entries(pins).forEach(([author, voice]) => {
+    voices.set(authorKey(author), voice);
+    used.add(voice);
+  });
+
+  items.forEach(item => {
+    const key = authorKey(item.author);
+    if (voices.has(key)) return;
+
+    const start = hashAuthor(key) % others.length;
+    let voice = others[start];
+    for (let step = 0; step < others.length; step++) {
+      const candidate = others[(start + step) % others.length];
+      if (!used.has(candidate)) {
+        voice = candidate;
+        break;
+      }
+    }
+
+    voices.set(key, voice);
+    used.add(voice);
+  });
+
+  return voices;
+}
@@ -0,0 +1,101 @@
+// src/playback/wordAlignment.ts
+
+/**
+ * Maps word positions in spoken (normalized) text back to the item text it was
+ * made from, by aligning the words both share. A word normalization rewrote maps
+ * to the stretch of original text it replaced ("5 thousand" -> "5k", "today I
+ * learned" -> "TIL"); a word added out of nothing maps to nothing.
+ */
+
+interface Token {
+  start: number;
+  end: number;
+  key: string;
+}
+
+export interface SourceRange {
+  start: number;
+  length: number;
+}
+
+/**
+ * Source range of the spoken word at an offset into the spoken text, or null
+ */
+export type SpokenWordMap = (spokenOffset: number) => SourceRange | null;
+
+// Aligning is quadratic in words; past this, fall back to proportional positions
+const MAX_ALIGNMENT_CELLS = 4_000_000;
+
+function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(/\S+/g), match => {
+    const start = match.index ?? 0;
+    const word = match[0].toLowerCase();
+    const key = word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '') || word;
+    return { start, end: start + match[0].length, key };
+  });
+}
+
+/**
+ * For each spoken word, the index of the same word in the source, or -1
+ */
+function alignTokens(spoken: Token[], source: Token[]): number[] {
+  const columns = source.length + 1;
+  // lcs[i * columns + j]: longest common run of spoken[i..] and source[j..]
+  const lcs = new Uint32Array((spoken.length + 1) * columns);
+  for (let i = spoken.length - 1; i >= 0; i--) {
+    for (let j = source.length - 1; j >= 0; j--) {
+      lcs[i * columns + j] = spoken[i].key === source[j].key
+        ? lcs[(i + 1) * columns + j + 1] + 1
+        : Math.max(lcs[(i + 1) * columns + j], lcs[i * columns + j + 1]);
+    }
+  }
+
+  const matches = new Array<number>(spoken.length).fill(-1);
+  let i = 0;
+  let j = 0;
+  while (i < spoken.length && j < source.length) {
+    if (spoken[i].key === source[j].key) {
+      matches[i++] = j++;
+    } else if (lcs[(i + 1) * columns + j] >= lcs[i * columns + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+function rangeOf(first: Token, last: Token): SourceRange {
+  return { start: first.start, length: last.end - first.start };
+}
+
+export function mapSpokenWords(source: string, spoken: string): SpokenWordMap {
+  const spokenTokens = tokenize(spoken);
+  const sourceTokens = tokenize(source);
+  let ranges: Array<SourceRange | null>;
+
+  if (spokenTokens.length * sourceTokens.length > MAX_ALIGNMENT_CELLS) {
+    ranges = spokenTokens.map((_token, i) => {
+      const token = sourceTokens[Math.floor((i / spokenTokens.length) * sourceTokens.length)];
+      return token ? rangeOf(token, token) : null;
+    });
+  } else {
+    const matches = alignTokens(spokenTokens, sourceTokens);
+    ranges = matches.map((match, i) => {
+      if (match >= 0) return rangeOf(sourceTokens[match], sourceTokens[match]);
+
+      // Unmatched: whatever source words lie between the matched neighbours
+      const previous = matches.slice(0, i).reverse().find(m => m >= 0);
+      const next = matches.slice(i + 1).find(m => m >= 0);
+      const before = previous ?? -1;
+      const after = next ?? sourceTokens.length;
+      return after - before > 1 ? rangeOf(sourceTokens[before + 1], sourceTokens[after - 1]) : null;
+    });
+  }
+
+  return (spokenOffset) => {
+    let index = spokenTokens.length - 1;
+    while (index > 0 && spokenTokens[index].start > spokenOffset) index--;
+    return index >= 0 ? ranges[index] : null;
+  };
+}
@@ -1,37 +1,62 @@
 // src/popup/popup.tsx
 import React from 'react';
 import ReactDOM from 'react-dom/client';
-
-interface Comment {
-  id: string;
-  author: string | null;
-  depth: number;
-  text: string;
-  permalink: string;
-}
-
-interface PlaybackState {
-  isPlaying: boolean;
-  isPaused: boolean;
-  currentIndex: number;
-  totalComments: number;
-  totalItems: number;
-  speed: number;
-  useUniqueVoices?: boolean;
-  voiceCount?: number;
-  currentType?: 'title' | 'body' | 'comment' | null;
-  hasTitle?: boolean;
-  hasBody?: boolean;
-  title?: string;
-  maxDepth?: number;
-  maxTopLevelComments?: number;
-  maxTotalComments?: number;
-  expansionStrategy?: 'breadth' | 'depth' | 'balanced';
-  voiceLocale?: string;
-  isExtracting?: boolean;
-  extractionProgress?: number;
-  comments: Comment[];
-}
+import { ContentItem, ExpansionStrategy, ExtractionMode, LinkMode } from '../types';
+import {
+  BackgroundAction,
+  BackgroundRequestMap,
+  BackgroundResponse,
+  CommentSummary,
+  ContentAction,
+  ContentRequestMap,
+  ContentResponse,
+  ContentState,
+  ProtocolError,
+  ResumePoint,
+  SessionState,
+  sendToBackground,
+  sendToTab
+} from '../messaging/protocol';
+import { SITES, findSite } from '../adapters/sites';
+import {
+  ANNOUNCEMENT_VARIABLES,
+  AnnouncementKind,
+  AnnouncementSettings,
+  DEFAULT_ANNOUNCEMENTS
+} from '../playback/announcements';
+import {
+  DEFAULT_NORMALIZATION,
+  NORMALIZATION_RULES,
+  NormalizationSettings
+} from '../playback/normalization';
+import { VoicePins } from '../playback/voiceAssignment';
+import {
+  DEFAULT_LANGUAGE_SETTINGS,
+  LANGUAGE_NAMES,
+  LanguageFallback,
+  LanguageSettings,
+  languageOf
+} from '../playback/languageDetection';
+import { DEFAULT_TTS_SETTINGS, TtsBackendKind, TtsSettings, createTtsBackend } from '../playback/backends';
+import { AudioExportFormat } from '../export/audioExport';
+import { TranscriptFormat, buildTranscript } from '../export/transcript';
+import { exportFileName } from '../export/fileName';
+import {
+  AuthorRule,
+  AuthorRuleAction,
+  AuthorRuleKind,
+  DEFAULT_AUTHOR_RULES,
+  createAuthorRule,
+  validateAuthorRule
+} from '../utils/authorFilters';
+import {
+  ContentRule,
+  ContentRuleAction,
+  ContentRuleKind,
+  DEFAULT_CONTENT_RULES,
+  createContentRule,
+  validateContentRule
+} from '../utils/contentFilters';
 
 interface VoiceOption {
   name: string;
@@ -42,9 +67,22 @@ interface Settings {
   maxDepth: number;
   maxTopLevelComments: number;
   maxTotalComments: number;
-  expansionStrategy: 'breadth' | 'depth' | 'balanced';
+  expansionStrategy: ExpansionStrategy;
+  extractionMode: ExtractionMode;
+  linkMode: LinkMode;
   voiceLocale: string;
   selectedVoices: string[];
+  announcements: AnnouncementSettings;
+  normalization: NormalizationSettings;
+  voicePins: VoicePins;
+  languages: LanguageSettings;
+  tts: TtsSettings;
+  minScoreEnabled: boolean;
+  minScore: number;
+  minScoreDropsReplies: boolean;
+  sortByScore: boolean;
+  authorRules: AuthorRule[];
+  contentRules: ContentRule[];
   hasCompletedSetup: boolean;
 }
 
@@ -59,8 +97,21 @@ const DEFAULT_SETTINGS: Settings = {
   maxTopLevelComments: 50,
   maxTotalComments: 300,
   expansionStrategy: 'balanced',
+  extractionMode: 'dom',
+  linkMode: 'remove',
   voiceLocale: 'en-US',
   selectedVoices: DEFAULT_VOICES,
+  announcements: DEFAULT_ANNOUNCEMENTS,
+  normalization: DEFAULT_NORMALIZATION,
+  voicePins: {},
+  languages: DEFAULT_LANGUAGE_SETTINGS,
+  tts: DEFAULT_TTS_SETTINGS,
+  minScoreEnabled: false,
+  minScore: 1,
+  minScoreDropsReplies: false,
+  sortByScore: false,
+  authorRules: DEFAULT_AUTHOR_RULES,
+  contentRules: DEFAULT_CONTENT_RULES,
   hasCompletedSetup: false
 };
 
@@ -82,38 +133,201 @@ const EXPANSION_STRATEGIES = [
   },
 ];
 
+const EXTRACTION_MODES = [
+  {
+    value: 'dom',
+    label: '🖱️ Page',
+    description: 'Expand "More replies" on the page and read what is shown'
+  },
+  {
+    value: 'json',
+    label: '🧾 Reddit JSON',
+    description: 'Load the thread data directly - faster, no clicking'
+  },
+];
+
+const LINK_MODES = [
+  {
+    value: 'remove',
+    label: '✂️ Remove',
+    description: 'Skip URLs, keep the words of linked text'
+  },
+  {
+    value: 'domain',
+    label: '🌐 Domain',
+    description: 'Say "link to nature dot com" in place of the link'
+  },
+  {
+    value: 'anchorAndDomain',
+    label: '🔗 Text + domain',
+    description: 'Read the linked words, then "link to nature dot com"'
+  },
+];
+
+const TTS_BACKENDS = [
+  {
+    value: 'webSpeech',
+    label: '🔊 Browser voices',
+    description: 'The voices built into your OS and browser (Web Speech)'
+  },
+  {
+    value: 'chromeTts',
+    label: '🧩 Chrome TTS engines',
+    description: 'chrome.tts, including voices added by TTS extensions'
+  },
+  {
+    value: 'http',
+    label: '🖥️ Local TTS server',
+    description: 'A neural TTS server on this machine (Piper-style HTTP)'
+  },
+];
+
+const TRANSCRIPT_FORMATS = [
+  {
+    value: 'markdown',
+    label: 'Markdown',
+    description: 'The thread as text, with replies quoted inside their parents'
+  },
+  {
+    value: 'json',
+    label: 'JSON',
+    description: 'Every comment with its author, depth, score and links'
+  },
+  {
+    value: 'ssml',
+    label: 'SSML',
+    description: 'Speech markup with each voice and pause, for other TTS tools'
+  },
+];
+
+const ANNOUNCEMENT_OPTIONS: { kind: AnnouncementKind; label: string; description: string }[] = [
+  {
+    kind: 'author',
+    label: 'Comment author',
+    description: 'Before top-level comments, and replies when nothing below applies'
+  },
+  {
+    kind: 'reply',
+    label: 'Replies',
+    description: 'Before replies, naming the comment being answered'
+  },
+  {
+    kind: 'opReply',
+    label: 'OP replies',
+    description: 'When the post author replies'
+  },
+  {
+    kind: 'backToTopLevel',
+    label: 'Back to top level',
+    description: 'The first top-level comment after a reply chain'
+  },
+  {
+    kind: 'position',
+    label: 'Comment number',
+    description: 'Before every comment, ahead of the author'
+  },
+];
+
 const VOICE_PREVIEW_TEXT = "Hello! This is how I sound when reading Reddit comments.";
 
+function describeError(error: unknown): string {
+  if (error instanceof ProtocolError) {
+    return `Error: ${error.message}`;
+  }
+  return 'Error: Please refresh the page';
+}
+
+/**
+ * Links from JSON extraction can be relative to the thread's site
+ */
+function resolveLink(url: string, base: string | null): string {
+  try {
+    return new URL(url, base || undefined).href;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * The comment rows of the content list, each with the engine index it seeks to.
+ * Uses the session's items when there are any, with the page's details for
+ * each comment; otherwise the page's comments after the post.
+ */
+function commentRowsFor(
+  comments: CommentSummary[],
+  sessionItems: ContentItem[],
+  titleBodyOffset: number
+): Array<{ comment: CommentSummary; itemIndex: number }> {
+  if (sessionItems.length === 0) {
+    return comments.map((comment, index) => ({ comment, itemIndex: index + titleBodyOffset }));
+  }
+
+  const byId = new Map(comments.map(comment => [comment.id, comment]));
+  return sessionItems.flatMap((item, itemIndex) => {
+    if (item.type !== 'comment') return [];
+    const comment = (item.id && byId.get(item.id)) || {
+      id: item.id || '',
+      text: item.text,
+      author: item.author ?? null,
+      depth: item.depth || 0,
+      permalink: '',
+      score: null,
+      createdAt: null,
+      isOp: false,
+      links: []
+    };
+    return [{ comment, itemIndex }];
+  });
+}
+
+function describeResumePoint(point: ResumePoint): string {
+  if (point.type === 'title') return 'Resume from the post title';
+  if (point.type === 'body') return 'Resume from the post body';
+  return `Resume from u/${point.author || 'deleted'}'s comment`;
+}
+
 function App() {
   const [status, setStatus] = React.useState('Loading...');
-  const [state, setState] = React.useState<PlaybackState | null>(null);
+  const [state, setState] = React.useState<ContentState | null>(null);
+  const [session, setSession] = React.useState<SessionState | null>(null);
   const [tabId, setTabId] = React.useState<number | null>(null);
+  const [tabUrl, setTabUrl] = React.useState<string | null>(null);
   const [isLoading, setIsLoading] = React.useState(true);
   const [settings, setSettings] = React.useState<Settings>(DEFAULT_SETTINGS);
   const [showSetup, setShowSetup] = React.useState(false);
   const [showSettings, setShowSettings] = React.useState(false);
   const [contentExpanded, setContentExpanded] = React.useState(true);
   const [availableVoices, setAvailableVoices] = React.useState<VoiceOption[]>([]);
-  const [englishVoices, setEnglishVoices] = React.useState<VoiceOption[]>([]);
   const [playingVoice, setPlayingVoice] = React.useState<string | null>(null);
+  const [shortcuts, setShortcuts] = React.useState<chrome.commands.Command[]>([]);
+  const [showVoicePins, setShowVoicePins] = React.useState(false);
+  const [newPin, setNewPin] = React.useState({ author: '', voice: '' });
+  const [exportFormat, setExportFormat] = React.useState<AudioExportFormat>('wav');
+  const [transcriptFormat, setTranscriptFormat] = React.useState<TranscriptFormat>('markdown');
+  const [transcriptSaved, setTranscriptSaved] = React.useState(false);
+  const activeRowRef = React.useRef<HTMLDivElement | null>(null);
+
+  // The popup lists and previews voices from the same backend the engine speaks with
+  const ttsBackend = React.useMemo(
+    () => createTtsBackend(settings.tts),
+    [settings.tts.backend, settings.tts.httpEndpoint]
+  );
 
-  // Load ALL English voices (not filtered by locale)
   React.useEffect(() => {
+    let active = true;
     const loadVoices = () => {
-      const voices = window.speechSynthesis.getVoices();
-      const voiceOptions = voices.map(v => ({ name: v.name, lang: v.lang }));
-      setAvailableVoices(voiceOptions);
-
-      // Get ALL English voices from all regions
-      const allEnglish = voiceOptions.filter(v =>
-        v.lang.startsWith('en-') || v.lang === 'en'
-      );
-      setEnglishVoices(allEnglish);
+      ttsBackend.getVoices()
+        .then(voices => { if (active) setAvailableVoices(voices); })
+        .catch(error => console.error('Failed to load voices:', error));
     };
 
     loadVoices();
-    window.speechSynthesis.onvoiceschanged = loadVoices;
-  }, []);
+    const unsubscribe = ttsBackend.onVoicesChanged(loadVoices);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [ttsBackend]);
 
   // Load settings from storage
   React.useEffect(() => {
@@ -125,6 +339,12 @@ function App() {
         loadedSettings.selectedVoices = DEFAULT_VOICES;
       }
 
+      // Pick up announcement kinds added since the settings were saved
+      loadedSettings.announcements = { ...DEFAULT_ANNOUNCEMENTS, ...loadedSettings.announcements };
+      loadedSettings.normalization = { ...DEFAULT_NORMALIZATION, ...loadedSettings.normalization };
+      loadedSettings.languages = { ...DEFAULT_LANGUAGE_SETTINGS, ...loadedSettings.languages };
+      loadedSettings.tts = { ...DEFAULT_TTS_SETTINGS, ...loadedSettings.tts };
+
       setSettings(loadedSettings);
 
       if (!loadedSettings.hasCompletedSetup) {
@@ -134,6 +354,14 @@ function App() {
     });
   }, []);
 
+  // Keyboard shortcuts can be rebound in Chrome at any time, so re-read them when settings open
+  React.useEffect(() => {
+    if (!showSettings) return;
+    chrome.commands.getAll((commands) => {
+      setShortcuts(commands.filter(command => command.name !== '_execute_action'));
+    });
+  }, [showSettings]);
+
   // Save settings to storage
   const saveSettings = (newSettings: Partial<Settings>) => {
     const updated = { ...settings, ...newSettings };
@@ -141,31 +369,52 @@ function App() {
     chrome.storage.sync.set(updated);
   };
 
+  // chrome.tts is shared with the engine, so only cancel when a preview is actually playing
+  const stopPreview = () => {
+    if (playingVoice) {
+      ttsBackend.cancel();
+      setPlayingVoice(null);
+    }
+  };
+
   // Preview voice
   const previewVoice = (voiceName: string) => {
-    window.speechSynthesis.cancel();
-
-    const voices = window.speechSynthesis.getVoices();
-    const voice = voices.find(v => v.name === voiceName);
+    stopPreview();
 
+    const voice = availableVoices.find(v => v.name === voiceName);
     if (voice) {
       setPlayingVoice(voiceName);
-      const utterance = new SpeechSynthesisUtterance(VOICE_PREVIEW_TEXT);
-      utterance.voice = voice;
-      utterance.rate = 1.0;
+      ttsBackend.speak({ text: VOICE_PREVIEW_TEXT, voice, lang: voice.lang, rate: 1.0 }, {
+        onBoundary: () => {},
+        onEnd: () => setPlayingVoice(null),
+        onError: () => setPlayingVoice(null)
+      });
+    }
+  };
 
-      utterance.onend = () => {
-        setPlayingVoice(null);
-      };
+  const updateAnnouncement = (kind: AnnouncementKind, change: Partial<AnnouncementSettings[AnnouncementKind]>) => ({
+    ...settings.announcements,
+    [kind]: { ...settings.announcements[kind], ...change }
+  });
 
-      utterance.onerror = () => {
-        setPlayingVoice(null);
-      };
+  const pinVoice = () => {
+    const author = newPin.author.trim().replace(/^\/?u\//i, '').toLowerCase();
+    if (!author || !newPin.voice) return;
+    saveSettings({ voicePins: { ...settings.voicePins, [author]: newPin.voice } });
+    setNewPin({ author: '', voice: newPin.voice });
+  };
 
-      window.speechSynthesis.speak(utterance);
-    }
+  const unpinVoice = (author: string) => {
+    const { [author]: _removed, ...rest } = settings.voicePins;
+    saveSettings({ voicePins: rest });
   };
 
+  const updateAuthorRule = (id: string, change: Partial<AuthorRule>) =>
+    settings.authorRules.map(rule => rule.id === id ? { ...rule, ...change } : rule);
+
+  const updateContentRule = (id: string, change: Partial<ContentRule>) =>
+    settings.contentRules.map(rule => rule.id === id ? { ...rule, ...change } : rule);
+
   // Toggle voice selection
   const toggleVoice = (voiceName: string) => {
     const currentSelected = settings.selectedVoices || [];
@@ -183,10 +432,22 @@ function App() {
     }
   };
 
+  // The engine reads with voices from any region of the locale's language,
+  // plus voices whose backend doesn't say what they speak
+  const localeVoices = React.useMemo(() => {
+    const language = languageOf(settings.voiceLocale);
+    return availableVoices.filter(v => !v.lang || languageOf(v.lang) === language);
+  }, [availableVoices, settings.voiceLocale]);
+
+  const voiceLocales = React.useMemo(() => {
+    const locales = new Set(availableVoices.map(v => v.lang).filter(lang => lang));
+    locales.add(settings.voiceLocale);
+    return Array.from(locales).sort();
+  }, [availableVoices, settings.voiceLocale]);
+
   // Select all voices
   const selectAllVoices = () => {
-    const allEnglishNames = englishVoices.map(v => v.name);
-    setSettings({ ...settings, selectedVoices: allEnglishNames });
+    setSettings({ ...settings, selectedVoices: localeVoices.map(v => v.name) });
   };
 
   // Select default voices
@@ -194,23 +455,51 @@ function App() {
     setSettings({ ...settings, selectedVoices: DEFAULT_VOICES });
   };
 
-  const sendMessage = async (action: string, data: any = {}) => {
-    if (!tabId) return;
+  const sendMessage = async <A extends ContentAction>(
+    action: A,
+    data: ContentRequestMap[A]
+  ): Promise<ContentResponse<A> | null> => {
+    if (!tabId) return null;
 
     try {
-      const response = await chrome.tabs.sendMessage(tabId, { action, ...data });
-      return response;
+      return await sendToTab<A>(tabId, { action, ...data });
     } catch (error) {
       console.error('Error sending message:', error);
-      setStatus('Error: Please refresh the Reddit page');
+      setStatus(describeError(error));
+      return null;
+    }
+  };
+
+  // Playback is owned by the background worker, not the tab
+  const sendCommand = async <A extends BackgroundAction>(
+    action: A,
+    data: BackgroundRequestMap[A]
+  ): Promise<BackgroundResponse<A> | null> => {
+    try {
+      return await sendToBackground<A>({ action, ...data });
+    } catch (error) {
+      console.error('Error sending command:', error);
+      setStatus(describeError(error));
       return null;
     }
   };
 
+  const changeVoiceLocale = (voiceLocale: string) => {
+    saveSettings({ voiceLocale });
+    if (session) {
+      sendCommand('setVoiceLocale', { locale: voiceLocale });
+    }
+  };
+
+  const refreshSession = async () => {
+    const response = await sendToBackground({ action: 'getSession' });
+    setSession(response.session);
+  };
+
   const stopExtraction = async () => {
-    await sendMessage('stopExtraction');
+    await sendMessage('stopExtraction', {});
     // Re-extract what we have so far
-    const postContent = await sendMessage('getState');
+    const postContent = await sendMessage('getState', {});
     if (postContent) {
       setState(postContent);
       setStatus(`Ready - ${postContent.totalComments} comments`);
@@ -227,28 +516,33 @@ function App() {
     setStatus(`Extracting comments...`);
 
     try {
-      const response = await chrome.tabs.sendMessage(tabId, {
+      const response = await sendToTab(tabId, {
         action: 'extractComments',
         maxDepth: settings.maxDepth,
         maxTopLevelComments: settings.maxTopLevelComments,
         maxTotalComments: settings.maxTotalComments,
         expansionStrategy: settings.expansionStrategy,
+        extractionMode: settings.extractionMode,
+        linkMode: settings.linkMode,
         voiceLocale: settings.voiceLocale,
-        selectedVoices: settings.selectedVoices
+        selectedVoices: settings.selectedVoices,
+        minScore: settings.minScoreEnabled ? settings.minScore : undefined,
+        minScoreDropsReplies: settings.minScoreDropsReplies,
+        sortByScore: settings.sortByScore,
+        authorRules: settings.authorRules,
+        contentRules: settings.contentRules
       });
 
-      if (response?.success && response.count > 0) {
+      if (response.count > 0) {
         setStatus(`Ready - ${response.count} comments`);
-        const newState = await chrome.tabs.sendMessage(tabId, { action: 'getState' });
+        const newState = await sendToTab(tabId, { action: 'getState' });
         setState(newState);
-      } else if (response?.count === 0) {
-        setStatus('No comments found on this post');
       } else {
-        setStatus('Failed to extract comments');
+        setStatus('No comments found on this post');
       }
     } catch (error) {
       console.error('Extraction error:', error);
-      setStatus('Error: Please refresh the Reddit page');
+      setStatus(describeError(error));
     } finally {
       setIsLoading(false);
     }
@@ -260,7 +554,7 @@ function App() {
   };
 
   const saveAndRefresh = async () => {
-    window.speechSynthesis.cancel();
+    stopPreview();
     await chrome.storage.sync.set(settings);
 
     if (tabId) {
@@ -284,24 +578,31 @@ function App() {
           return;
         }
 
-        if (!tab.url?.includes('reddit.com/r/') || !tab.url?.includes('/comments/')) {
-          setStatus('Please open a Reddit post to use this extension');
+        if (!findSite(tab.url)) {
+          setStatus(`Please open a thread (${SITES.map(site => site.label).join(', ')}) to use this extension`);
           setIsLoading(false);
           return;
         }
 
         setTabId(tab.id);
+        setTabUrl(tab.url || null);
 
         try {
-          const existingState = await chrome.tabs.sendMessage(tab.id, { action: 'getState' });
+          const existingState = await sendToTab(tab.id, { action: 'getState' });
 
-          if (existingState && existingState.totalComments > 0) {
+          if (existingState.totalComments > 0) {
             setState(existingState);
             setStatus(`Ready - ${existingState.totalComments} comments`);
             setIsLoading(false);
             return;
           }
         } catch (error) {
+          // A mismatched content script must not be silently treated as "no state"
+          if (error instanceof ProtocolError) {
+            setStatus(describeError(error));
+            setIsLoading(false);
+            return;
+          }
           // No existing state
         }
 
@@ -313,7 +614,7 @@ function App() {
 
       } catch (error) {
         console.error('Initialization error:', error);
-        setStatus('Error: Please refresh the Reddit page');
+        setStatus('Error: Please refresh the page');
         setIsLoading(false);
       }
     };
@@ -321,13 +622,25 @@ function App() {
     init();
   }, [showSetup, settings.hasCompletedSetup]);
 
+  // Poll the background session - it keeps playing with no thread tab open
+  React.useEffect(() => {
+    refreshSession().catch(() => {});
+    const interval = setInterval(() => {
+      refreshSession().catch(() => {
+        // Worker restarting
+      });
+    }, 500);
+
+    return () => clearInterval(interval);
+  }, []);
+
   // Poll for state updates (including extraction progress)
   React.useEffect(() => {
     if (!tabId) return;
 
     const interval = setInterval(async () => {
       try {
-        const response = await chrome.tabs.sendMessage(tabId, { action: 'getState' });
+        const response = await sendToTab(tabId, { action: 'getState' });
         setState(response);
 
         // Update status if extracting
@@ -342,19 +655,122 @@ function App() {
     return () => clearInterval(interval);
   }, [tabId]);
 
-  const play = () => sendMessage('play');
-  const pause = () => sendMessage('pause');
-  const stop = () => sendMessage('stop');
-  const next = () => sendMessage('next');
-  const previous = () => sendMessage('previous');
-  const setSpeed = (speed: number) => sendMessage('setSpeed', { speed });
+  // The background may still be playing a thread this tab has navigated away from
+  const playback = session && state && session.permalink === state.permalink ? session : null;
+  const playingElsewhere = session && !playback && (session.isPlaying || session.isPaused) ? session : null;
+
+  // Starting playback on this tab's thread takes over from whatever else was playing
+  const takeOver = async () => {
+    if (playback) return;
+    await sendMessage('loadSession', {});
+    await refreshSession();
+  };
+
+  const play = async () => {
+    await takeOver();
+    return sendCommand('play', {});
+  };
+  const pause = () => sendCommand('pause', {});
+  const stop = () => sendCommand('stop', {});
+  const next = () => sendCommand('next', {});
+  const previous = () => sendCommand('previous', {});
+  const setSpeed = (speed: number) => sendCommand('setSpeed', { speed });
+  const seek = async (index: number) => {
+    await takeOver();
+    return sendCommand('seek', { index });
+  };
+  const skipReplies = () => sendCommand('skipReplies', {});
+  const nextThread = () => sendCommand('nextThread', {});
+  const parent = () => sendCommand('parent', {});
+  const restartThread = () => sendCommand('restartThread', {});
+  const previousSentence = () => sendCommand('previousSentence', {});
+  const nextSentence = () => sendCommand('nextSentence', {});
+  const exportAudio = async () => {
+    await takeOver();
+    return sendCommand('exportAudio', { format: exportFormat });
+  };
+  // Built from the engine's script, so the file holds exactly what would be read
+  const exportTranscript = async () => {
+    if (!state) return;
+    setTranscriptSaved(false);
+    await takeOver();
+    const response = await sendCommand('getScript', {});
+    if (!response) return;
+
+    const file = buildTranscript(transcriptFormat, {
+      title: state.title,
+      permalink: state.permalink,
+      locale: response.voiceLocale,
+      script: response.script,
+      comments: state.comments
+    });
+    const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+    try {
+      await chrome.downloads.download({ url, filename: exportFileName(state.title, file.extension) });
+      setTranscriptSaved(true);
+    } catch (error) {
+      console.error('Error saving transcript:', error);
+      setStatus(describeError(error));
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  };
+  const resume = () => sendCommand('resume', {});
+  const dismissResume = () => sendCommand('dismissResume', {});
+
+  const nowPlayingElsewhere = playingElsewhere && (
+    <div style={{
+      marginBottom: '12px',
+      padding: '10px',
+      background: '#e8f4f8',
+      borderRadius: '4px',
+      borderLeft: '4px solid #0079d3'
+    }}>
+      <div style={{ fontSize: '11px', color: '#666', marginBottom: '4px' }}>
+        {playingElsewhere.isPlaying ? '🔊 NOW PLAYING' : '⏸️ PAUSED'}
+        {playingElsewhere.tabId === null && ' (tab closed)'}
+      </div>
+      <div style={{ fontSize: '13px', fontWeight: 'bold', color: '#333', marginBottom: '8px' }}>
+        {playingElsewhere.title || playingElsewhere.permalink}
+      </div>
+      <div style={{ display: 'flex', gap: '8px' }}>
+        {playingElsewhere.isPlaying ? (
+          <button onClick={pause} style={buttonStyle}>⏸️ Pause</button>
+        ) : (
+          <button onClick={() => sendCommand('play', {})} style={buttonStyle}>▶️ Play</button>
+        )}
+        <button onClick={stop} style={buttonStyle}>⏹️ Stop</button>
+      </div>
+    </div>
+  );
 
   const comments = state?.comments || [];
-  const currentIndex = state?.currentIndex || 0;
-  const speed = state?.speed || 1.0;
-  const isPlaying = state?.isPlaying || false;
+  const currentIndex = playback?.currentIndex || 0;
+
+  // Merges can keep an item the page no longer lists, so once this thread is
+  // loaded the rows follow the engine's items rather than the page's comments
+  const [sessionItems, setSessionItems] = React.useState<ContentItem[]>([]);
+  const commentIds = comments.map(comment => comment.id).join(',');   // changes when the page re-extracts
+  React.useEffect(() => {
+    if (!playback) {
+      setSessionItems([]);
+      return;
+    }
+    sendToBackground({ action: 'getItems' })
+      .then(response => setSessionItems(response.items))
+      .catch(() => {
+        // Worker restarting; the next change retries
+      });
+  }, [playback?.permalink, playback?.totalItems, commentIds]);
+  const speed = playback?.speed || 1.0;
+  const isPlaying = playback?.isPlaying || false;
   const isExtracting = state?.isExtracting || false;
 
+  // Keep the row being spoken scrolled into view in the content list
+  React.useEffect(() => {
+    activeRowRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [currentIndex, contentExpanded]);
+
   // Get selected voice count
   const selectedVoiceCount = settings.selectedVoices.length;
 
@@ -439,7 +855,7 @@ function App() {
                 name="strategy"
                 value={strategy.value}
                 checked={settings.expansionStrategy === strategy.value}
-                onChange={(e) => setSettings({ ...settings, expansionStrategy: e.target.value as any })}
+                onChange={(e) => setSettings({ ...settings, expansionStrategy: e.target.value as ExpansionStrategy })}
                 style={{ marginRight: '8px' }}
               />
               <span style={{ fontSize: '13px', fontWeight: 'bold' }}>{strategy.label}</span>
@@ -450,6 +866,39 @@ function App() {
           ))}
         </div>
 
+        <div style={{ marginBottom: '16px', padding: '12px', background: '#f6f7f8', borderRadius: '4px' }}>
+          <label style={{ fontSize: '13px', display: 'block', marginBottom: '8px', fontWeight: 'bold' }}>
+            📥 Comment Source
+          </label>
+          {EXTRACTION_MODES.map(mode => (
+            <label
+              key={mode.value}
+              style={{
+                display: 'block',
+                padding: '10px',
+                marginBottom: '8px',
+                background: settings.extractionMode === mode.value ? '#e3f2fd' : 'white',
+                border: `2px solid ${settings.extractionMode === mode.value ? '#0079d3' : '#ddd'}`,
+                borderRadius: '4px',
+                cursor: 'pointer'
+              }}
+            >
+              <input
+                type="radio"
+                name="extractionMode"
+                value={mode.value}
+                checked={settings.extractionMode === mode.value}
+                onChange={(e) => setSettings({ ...settings, extractionMode: e.target.value as ExtractionMode })}
+                style={{ marginRight: '8px' }}
+              />
+              <span style={{ fontSize: '13px', fontWeight: 'bold' }}>{mode.label}</span>
+              <div style={{ fontSize: '11px', color: '#666', marginLeft: '24px', marginTop: '2px' }}>
+                {mode.description}
+              </div>
+            </label>
+          ))}
+        </div>
+
         {/* Voice Selection */}
         <div style={{ marginBottom: '16px', padding: '12px', background: '#f6f7f8', borderRadius: '4px' }}>
           <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
@@ -473,12 +922,12 @@ function App() {
           </div>
 
           <div style={{ maxHeight: '250px', overflowY: 'auto', border: '1px solid #ddd', borderRadius: '4px', padding: '8px', background: 'white' }}>
-            {englishVoices.length === 0 ? (
+            {localeVoices.length === 0 ? (
               <div style={{ fontSize: '12px', color: '#999', textAlign: 'center', padding: '16px' }}>
                 Loading voices...
               </div>
             ) : (
-              englishVoices.map(voice => {
+              localeVoices.map(voice => {
                 const isSelected = settings.selectedVoices.includes(voice.name);
 
                 return (
@@ -532,7 +981,7 @@ function App() {
             )}
           </div>
           <div style={{ fontSize: '11px', color: '#666', marginTop: '4px' }}>
-            Mix voices from any English region! Click ▶️ to preview.
+            Mix voices from any region of your language! Click ▶️ to preview.
           </div>
         </div>
 
@@ -567,7 +1016,7 @@ function App() {
         <div style={{ display: 'flex', alignItems: 'center', marginBottom: '16px' }}>
           <button
             onClick={() => {
-              window.speechSynthesis.cancel();
+              stopPreview();
               setShowSettings(false);
             }}
             style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '18px', marginRight: '8px' }}
@@ -646,7 +1095,7 @@ function App() {
                 name="strategy"
                 value={strategy.value}
                 checked={settings.expansionStrategy === strategy.value}
-                onChange={(e) => saveSettings({ expansionStrategy: e.target.value as any })}
+                onChange={(e) => saveSettings({ expansionStrategy: e.target.value as ExpansionStrategy })}
                 style={{ marginRight: '8px' }}
               />
               <span style={{ fontSize: '13px', fontWeight: 'bold' }}>{strategy.label}</span>
@@ -657,6 +1106,384 @@ function App() {
           ))}
         </div>
 
+        <div style={{ marginBottom: '16px', padding: '12px', background: '#f6f7f8', borderRadius: '4px' }}>
+          <label style={{ fontSize: '13px', display: 'block', marginBottom: '8px', fontWeight: 'bold' }}>
+            📥 Comment Source
+          </label>
+          {EXTRACTION_MODES.map(mode => (
+            <label
+              key={mode.value}
+              style={{
+                display: 'block',
+                padding: '10px',
+                marginBottom: '8px',
+                background: settings.extractionMode === mode.value ? '#e3f2fd' : 'white',
+                border: `2px solid ${settings.extractionMode === mode.value ? '#0079d3' : '#ddd'}`,
+                borderRadius: '4px',
+                cursor: 'pointer'
+              }}
+            >
+              <input
+                type="radio"
+                name="extractionMode"
+                value={mode.value}
+                checked={settings.extractionMode === mode.value}
+                onChange={(e) => saveSettings({ extractionMode: e.target.value as ExtractionMode })}
+                style={{ marginRight: '8px' }}
+              />
+              <span style={{ fontSize: '13px', fontWeight: 'bold' }}>{mode.label}</span>
+              <div style={{ fontSize: '11px', color: '#666', marginLeft: '24px', marginTop: '2px' }}>
+                {mode.description}
+              </div>
+            </label>
+          ))}
+        </div>
+
+        <div style={{ marginBottom: '16px', padding: '12px', background: '#f6f7f8', borderRadius: '4px' }}>
+          <label style={{ fontSize: '13px', display: 'block', marginBottom: '8px', fontWeight: 'bold' }}>
+            🔗 Links
+          </label>
+          {LINK_MODES.map(mode => (
+            <label
+              key={mode.value}
+              style={{
+                display: 'block',
+                padding: '10px',
+                marginBottom: '8px',
+                background: settings.linkMode === mode.value ? '#e3f2fd' : 'white',
+                border: `2px solid ${settings.linkMode === mode.value ? '#0079d3' : '#ddd'}`,
+                borderRadius: '4px',
+                cursor: 'pointer'
+              }}
+            >
+              <input
+                type="radio"
+                name="linkMode"
+                value={mode.value}
+                checked={settings.linkMode === mode.value}
+                onChange={(e) => saveSettings({ linkMode: e.target.value as LinkMode })}
+                style={{ marginRight: '8px' }}
+              />
+              <span style={{ fontSize: '13px', fontWeight: 'bold' }}>{mode.label}</span>
+              <div style={{ fontSize: '11px', color: '#666', marginLeft: '24px', marginTop: '2px' }}>
+                {mode.description}
+              </div>
+            </label>
+          ))}
+        </div>
+
+        <div style={{ marginBottom: '16px', padding: '12px', background: '#f6f7f8', borderRadius: '4px' }}>
+          <label style={{ fontSize: '13px', display: 'block', marginBottom: '8px', fontWeight: 'bold' }}>
+            ⬆️ Score
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', marginBottom: '6px', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={settings.minScoreEnabled}
+              onChange={(e) => saveSettings({ minScoreEnabled: e.target.checked })}
+            />
+            Skip comments scored below
+            <input
+              type="number"
+              step="1"
+              value={settings.minScore}
+              disabled={!settings.minScoreEnabled}
+              onChange={(e) => saveSettings({ minScore: parseInt(e.target.value) || 0 })}
+              style={{ width: '60px', padding: '4px', fontSize: '12px', borderRadius: '3px', border: '1px solid #ccc' }}
+            />
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', marginBottom: '6px', marginLeft: '20px', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={settings.minScoreDropsReplies}
+              disabled={!settings.minScoreEnabled}
+              onChange={(e) => saveSettings({ minScoreDropsReplies: e.target.checked })}
+            />
+            Also skip their replies
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={settings.sortByScore}
+              onChange={(e) => saveSettings({ sortByScore: e.target.checked })}
+            />
+            Read top-level threads highest score first
+          </label>
+          <div style={{ fontSize: '11px', color: '#666', marginTop: '6px' }}>
+            Hidden scores are never skipped. Applies on the next extraction.
+          </div>
+        </div>
+
+        <div style={{ marginBottom: '16px', padding: '12px', background: '#f6f7f8', borderRadius: '4px' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+            <label style={{ fontSize: '13px', fontWeight: 'bold' }}>
+              🚫 Author Filters
+            </label>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <button
+                onClick={() => saveSettings({ authorRules: [...settings.authorRules, createAuthorRule()] })}
+                style={{ fontSize: '11px', padding: '4px 8px', cursor: 'pointer', background: '#46d160', color: 'white', border: 'none', borderRadius: '3px' }}
+              >
+                Add
+              </button>
+              <button
+                onClick={() => saveSettings({ authorRules: DEFAULT_AUTHOR_RULES })}
+                style={{ fontSize: '11px', padding: '4px 8px', cursor: 'pointer', background: '#0079d3', color: 'white', border: 'none', borderRadius: '3px' }}
+              >
+                Default
+              </button>
+            </div>
+          </div>
+          {settings.authorRules.length === 0 && (
+            <div style={{ fontSize: '12px', color: '#666', marginBottom: '6px' }}>
+              No rules - every author is read.
+            </div>
+          )}
+          {settings.authorRules.map(rule => {
+            const error = rule.pattern ? validateAuthorRule(rule) : null;
+            const removed = state?.authorFilterCounts[rule.id] || 0;
+            return (
+              <div
+                key={rule.id}
+                style={{ padding: '8px', marginBottom: '6px', background: 'white', border: '1px solid #ddd', borderRadius: '4px', opacity: rule.enabled ? 1 : 0.6 }}
+              >
+                <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '6px' }}>
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => saveSettings({ authorRules: updateAuthorRule(rule.id, { enabled: e.target.checked }) })}
+                    title="Enabled"
+                  />
+                  <select
+                    value={rule.action}
+                    onChange={(e) => saveSettings({ authorRules: updateAuthorRule(rule.id, { action: e.target.value as AuthorRuleAction }) })}
+                    style={{ fontSize: '12px', padding: '2px' }}
+                  >
+                    <option value="block">Block</option>
+                    <option value="allow">Allow</option>
+                  </select>
+                  <select
+                    value={rule.kind}
+                    onChange={(e) => saveSettings({ authorRules: updateAuthorRule(rule.id, { kind: e.target.value as AuthorRuleKind }) })}
+                    style={{ fontSize: '12px', padding: '2px' }}
+                  >
+                    <option value="exact">Exact name</option>
+                    <option value="glob">Glob (*, ?)</option>
+                    <option value="regex">Regex</option>
+                  </select>
+                  <span style={{ flex: 1, textAlign: 'right', fontSize: '11px', color: removed > 0 ? '#ff4500' : '#999' }}>
+                    {rule.action === 'block' ? `${removed} removed` : ''}
+                  </span>
+                  <button
+                    onClick={() => saveSettings({ authorRules: settings.authorRules.filter(r => r.id !== rule.id) })}
+                    style={{ fontSize: '12px', padding: '0 4px', cursor: 'pointer', background: 'none', border: 'none', color: '#999' }}
+                    title="Delete rule"
+                  >
+                    ✕
+                  </button>
+                </div>
+                <div style={{ display: 'flex', gap: '6px' }}>
+                  <input
+                    type="text"
+                    value={rule.pattern}
+                    placeholder={rule.kind === 'exact' ? 'username' : rule.kind === 'glob' ? '*_bot' : '^[A-Za-z]+Bot$'}
+                    onChange={(e) => setSettings({ ...settings, authorRules: updateAuthorRule(rule.id, { pattern: e.target.value }) })}
+                    onBlur={() => saveSettings({})}
+                    style={{ flex: 2, minWidth: 0, padding: '6px', fontSize: '12px', borderRadius: '4px', border: `1px solid ${error ? '#ff4500' : '#ccc'}` }}
+                  />
+                  <input
+                    type="text"
+                    value={rule.community}
+                    placeholder="All communities"
+                    onChange={(e) => setSettings({ ...settings, authorRules: updateAuthorRule(rule.id, { community: e.target.value }) })}
+                    onBlur={() => saveSettings({})}
+                    style={{ flex: 1, minWidth: 0, padding: '6px', fontSize: '12px', borderRadius: '4px', border: '1px solid #ccc' }}
+                    title="Only apply in this subreddit, e.g. r/askscience"
+                  />
+                </div>
+                {error && (
+                  <div style={{ fontSize: '11px', color: '#ff4500', marginTop: '4px' }}>{error}</div>
+                )}
+              </div>
+            );
+          })}
+          <div style={{ fontSize: '11px', color: '#666', marginTop: '4px' }}>
+            Allow rules override every block rule. Removed counts are for the current thread.
+          </div>
+        </div>
+
+        <div style={{ marginBottom: '16px', padding: '12px', background: '#f6f7f8', borderRadius: '4px' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+            <label style={{ fontSize: '13px', fontWeight: 'bold' }}>
+              🔇 Content Filters
+            </label>
+            <button
+              onClick={() => saveSettings({ contentRules: [...settings.contentRules, createContentRule()] })}
+              style={{ fontSize: '11px', padding: '4px 8px', cursor: 'pointer', background: '#46d160', color: 'white', border: 'none', borderRadius: '3px' }}
+            >
+              Add
+            </button>
+          </div>
+          {settings.contentRules.length === 0 && (
+            <div style={{ fontSize: '12px', color: '#666', marginBottom: '6px' }}>
+              No rules - spoilers, profanity or topics you add here are skipped or masked.
+            </div>
+          )}
+          {settings.contentRules.map(rule => {
+            const error = rule.pattern ? validateContentRule(rule) : null;
+            const matched = state?.contentFilterCounts[rule.id] || 0;
+            return (
+              <div
+                key={rule.id}
+                style={{ padding: '8px', marginBottom: '6px', background: 'white', border: '1px solid #ddd', borderRadius: '4px', opacity: rule.enabled ? 1 : 0.6 }}
+              >
+                <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '6px' }}>
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => saveSettings({ contentRules: updateContentRule(rule.id, { enabled: e.target.checked }) })}
+                    title="Enabled"
+                  />
+                  <select
+                    value={rule.action}
+                    onChange={(e) => saveSettings({ contentRules: updateContentRule(rule.id, { action: e.target.value as ContentRuleAction }) })}
+                    style={{ fontSize: '12px', padding: '2px' }}
+                  >
+                    <option value="skip">Skip comment</option>
+                    <option value="skipReplies">Skip with replies</option>
+                    <option value="bleep">Say "bleep"</option>
+                    <option value="silence">Silence words</option>
+                  </select>
+                  <select
+                    value={rule.kind}
+                    onChange={(e) => saveSettings({ contentRules: updateContentRule(rule.id, { kind: e.target.value as ContentRuleKind }) })}
+                    style={{ fontSize: '12px', padding: '2px' }}
+                  >
+                    <option value="keyword">Keywords</option>
+                    <option value="regex">Regex</option>
+                  </select>
+                  <span style={{ flex: 1, textAlign: 'right', fontSize: '11px', color: matched > 0 ? '#ff4500' : '#999' }}>
+                    {matched} matched
+                  </span>
+                  <button
+                    onClick={() => saveSettings({ contentRules: settings.contentRules.filter(r => r.id !== rule.id) })}
+                    style={{ fontSize: '12px', padding: '0 4px', cursor: 'pointer', background: 'none', border: 'none', color: '#999' }}
+                    title="Delete rule"
+                  >
+                    ✕
+                  </button>
+                </div>
+                <input
+                  type="text"
+                  value={rule.pattern}
+                  placeholder={rule.kind === 'keyword' ? 'spoiler, finale, season 5' : '/\\bS\\d+E\\d+\\b/i'}
+                  onChange={(e) => setSettings({ ...settings, contentRules: updateContentRule(rule.id, { pattern: e.target.value }) })}
+                  onBlur={() => saveSettings({})}
+                  style={{ width: '100%', padding: '6px', fontSize: '12px', borderRadius: '4px', border: `1px solid ${error ? '#ff4500' : '#ccc'}`, boxSizing: 'border-box' }}
+                />
+                {error && (
+                  <div style={{ fontSize: '11px', color: '#ff4500', marginTop: '4px' }}>{error}</div>
+                )}
+              </div>
+            );
+          })}
+          <div style={{ fontSize: '11px', color: '#666', marginTop: '4px' }}>
+            Keywords match whole words, ignoring case. Matched counts are for the current thread.
+          </div>
+        </div>
+
+        <div style={{ marginBottom: '16px', padding: '12px', background: '#f6f7f8', borderRadius: '4px' }}>
+          <label style={{ fontSize: '13px', display: 'block', marginBottom: '8px', fontWeight: 'bold' }}>
+            🗣️ Speech Engine
+          </label>
+          {TTS_BACKENDS.map(option => (
+            <label
+              key={option.value}
+              style={{
+                display: 'block',
+                padding: '10px',
+                marginBottom: '8px',
+                background: settings.tts.backend === option.value ? '#e3f2fd' : 'white',
+                border: `2px solid ${settings.tts.backend === option.value ? '#0079d3' : '#ddd'}`,
+                borderRadius: '4px',
+                cursor: 'pointer'
+              }}
+            >
+              <input
+                type="radio"
+                name="ttsBackend"
+                value={option.value}
+                checked={settings.tts.backend === option.value}
+                onChange={(e) => saveSettings({ tts: { ...settings.tts, backend: e.target.value as TtsBackendKind } })}
+                style={{ marginRight: '8px' }}
+              />
+              <span style={{ fontSize: '13px', fontWeight: 'bold' }}>{option.label}</span>
+              <div style={{ fontSize: '11px', color: '#666', marginLeft: '24px', marginTop: '2px' }}>
+                {option.description}
+              </div>
+            </label>
+          ))}
+          {settings.tts.backend === 'http' && (
+            <div>
+              <label style={{ fontSize: '12px', display: 'block', marginBottom: '4px' }}>Server endpoint</label>
+              <input
+                key={settings.tts.httpEndpoint}
+                type="url"
+                defaultValue={settings.tts.httpEndpoint}
+                onBlur={(e) => saveSettings({ tts: { ...settings.tts, httpEndpoint: e.target.value.trim() || DEFAULT_TTS_SETTINGS.httpEndpoint } })}
+                style={{ width: '100%', padding: '6px', fontSize: '12px', borderRadius: '4px', border: '1px solid #ccc', boxSizing: 'border-box' }}
+              />
+              <div style={{ fontSize: '11px', color: '#666', marginTop: '4px' }}>
+                Each sentence is POSTed as JSON {'{ text, voice }'}; the reply must be audio. Voices are read from {'<endpoint>/voices'}.
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div style={{ marginBottom: '16px', padding: '12px', background: '#f6f7f8', borderRadius: '4px' }}>
+          <label style={{ fontSize: '13px', fontWeight: 'bold', display: 'block', marginBottom: '8px' }}>
+            🌍 Language
+          </label>
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '8px' }}>
+            <span style={{ fontSize: '12px' }}>Thread language</span>
+            <select
+              value={settings.voiceLocale}
+              onChange={(e) => changeVoiceLocale(e.target.value)}
+              style={{ fontSize: '12px', padding: '2px' }}
+            >
+              {voiceLocales.map(locale => (
+                <option key={locale} value={locale}>
+                  {LANGUAGE_NAMES[languageOf(locale)] || locale} ({locale})
+                </option>
+              ))}
+            </select>
+          </div>
+          <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer', fontSize: '12px', marginBottom: '8px' }}>
+            <input
+              type="checkbox"
+              checked={settings.languages.detect}
+              onChange={(e) => saveSettings({ languages: { ...settings.languages, detect: e.target.checked } })}
+              style={{ marginRight: '8px' }}
+            />
+            Detect comments in other languages
+          </label>
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+            <span style={{ fontSize: '12px', color: settings.languages.detect ? 'inherit' : '#999' }}>No voice for the language</span>
+            <select
+              value={settings.languages.fallback}
+              disabled={!settings.languages.detect}
+              onChange={(e) => saveSettings({ languages: { ...settings.languages, fallback: e.target.value as LanguageFallback } })}
+              style={{ fontSize: '12px', padding: '2px' }}
+            >
+              <option value="threadVoice">Read with the thread's voice</option>
+              <option value="announceSkip">Announce and skip</option>
+            </select>
+          </div>
+          <div style={{ fontSize: '11px', color: '#666', marginTop: '6px' }}>
+            Foreign-language comments are read by a voice that speaks them, when one is installed.
+          </div>
+        </div>
+
         {/* Voice Selection in Settings */}
         <div style={{ marginBottom: '16px', padding: '12px', background: '#f6f7f8', borderRadius: '4px' }}>
           <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
@@ -680,12 +1507,12 @@ function App() {
           </div>
 
           <div style={{ maxHeight: '250px', overflowY: 'auto', border: '1px solid #ddd', borderRadius: '4px', padding: '8px', background: 'white' }}>
-            {englishVoices.length === 0 ? (
+            {localeVoices.length === 0 ? (
               <div style={{ fontSize: '12px', color: '#999', textAlign: 'center', padding: '16px' }}>
                 Loading voices...
               </div>
             ) : (
-              englishVoices.map(voice => {
+              localeVoices.map(voice => {
                 const isSelected = settings.selectedVoices.includes(voice.name);
 
                 return (
@@ -739,7 +1566,197 @@ function App() {
             )}
           </div>
           <div style={{ fontSize: '11px', color: '#666', marginTop: '4px' }}>
-            Mix voices from any English region!
+            Mix voices from any region of your language!
+          </div>
+        </div>
+
+        <div style={{ marginBottom: '16px', padding: '12px', background: '#f6f7f8', borderRadius: '4px' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <label style={{ fontSize: '13px', fontWeight: 'bold' }}>
+              📌 Author Voices ({Object.keys(settings.voicePins).length} pinned)
+            </label>
+            <button
+              onClick={() => setShowVoicePins(!showVoicePins)}
+              style={{ fontSize: '11px', padding: '4px 8px', cursor: 'pointer', background: '#0079d3', color: 'white', border: 'none', borderRadius: '3px' }}
+            >
+              {showVoicePins ? 'Hide' : 'Show'}
+            </button>
+          </div>
+          {showVoicePins && (
+            <div style={{ marginTop: '8px' }}>
+              {Object.entries(settings.voicePins).map(([author, voice]) => (
+                <div key={author} style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '6px', fontSize: '12px' }}>
+                  <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis' }}>u/{author}</span>
+                  <select
+                    value={voice}
+                    onChange={(e) => saveSettings({ voicePins: { ...settings.voicePins, [author]: e.target.value } })}
+                    style={{ flex: 2, minWidth: 0, fontSize: '12px', padding: '2px' }}
+                  >
+                    {!localeVoices.some(v => v.name === voice) && <option value={voice}>{voice}</option>}
+                    {localeVoices.map(v => (
+                      <option key={v.name} value={v.name}>{v.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => unpinVoice(author)}
+                    style={{ fontSize: '12px', padding: '0 4px', cursor: 'pointer', background: 'none', border: 'none', color: '#999' }}
+                    title="Unpin"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+              <div style={{ display: 'flex', gap: '6px' }}>
+                <input
+                  type="text"
+                  list="thread-authors"
+                  value={newPin.author}
+                  placeholder="username"
+                  onChange={(e) => setNewPin({ ...newPin, author: e.target.value })}
+                  style={{ flex: 1, minWidth: 0, padding: '4px', fontSize: '12px', borderRadius: '3px', border: '1px solid #ccc' }}
+                />
+                <datalist id="thread-authors">
+                  {Array.from(new Set((state?.comments || []).map(c => c.author).filter((a): a is string => !!a))).map(author => (
+                    <option key={author} value={author} />
+                  ))}
+                </datalist>
+                <select
+                  value={newPin.voice}
+                  onChange={(e) => setNewPin({ ...newPin, voice: e.target.value })}
+                  style={{ flex: 2, minWidth: 0, fontSize: '12px', padding: '2px' }}
+                >
+                  <option value="">Voice...</option>
+                  {localeVoices.map(v => (
+                    <option key={v.name} value={v.name}>{v.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={pinVoice}
+                  disabled={!newPin.author.trim() || !newPin.voice}
+                  style={{ fontSize: '11px', padding: '4px 8px', cursor: 'pointer', background: '#46d160', color: 'white', border: 'none', borderRadius: '3px' }}
+                >
+                  Pin
+                </button>
+              </div>
+            </div>
+          )}
+          <div style={{ fontSize: '11px', color: '#666', marginTop: '6px' }}>
+            Everyone keeps one voice for the whole thread. OP always reads in your first selected voice; deleted authors share a neutral one.
+          </div>
+        </div>
+
+        <div style={{ marginBottom: '16px', padding: '12px', background: '#f6f7f8', borderRadius: '4px' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+            <label style={{ fontSize: '13px', fontWeight: 'bold' }}>
+              🔤 Speech Cleanup
+            </label>
+            <button
+              onClick={() => saveSettings({ normalization: DEFAULT_NORMALIZATION })}
+              style={{ fontSize: '11px', padding: '4px 8px', cursor: 'pointer', background: '#0079d3', color: 'white', border: 'none', borderRadius: '3px' }}
+            >
+              Default
+            </button>
+          </div>
+          {NORMALIZATION_RULES.map(rule => (
+            <div
+              key={rule.id}
+              style={{ padding: '8px', marginBottom: '6px', background: 'white', border: '1px solid #ddd', borderRadius: '4px' }}
+            >
+              <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer', fontSize: '12px', fontWeight: 'bold' }}>
+                <input
+                  type="checkbox"
+                  checked={settings.normalization[rule.id]}
+                  onChange={(e) => saveSettings({ normalization: { ...settings.normalization, [rule.id]: e.target.checked } })}
+                  style={{ marginRight: '8px' }}
+                />
+                {rule.label}
+              </label>
+              {rule.examples.map(example => (
+                <div key={example.input} style={{ fontSize: '11px', color: '#666', margin: '2px 0 0 24px' }}>
+                  "{example.input}" → "{example.output}"
+                </div>
+              ))}
+            </div>
+          ))}
+          <div style={{ fontSize: '11px', color: '#666', marginTop: '4px' }}>
+            Rules run top to bottom on the text just before it is spoken.
+          </div>
+        </div>
+
+        <div style={{ marginBottom: '16px', padding: '12px', background: '#f6f7f8', borderRadius: '4px' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+            <label style={{ fontSize: '13px', fontWeight: 'bold' }}>
+              🗣️ Announcements
+            </label>
+            <button
+              onClick={() => saveSettings({ announcements: DEFAULT_ANNOUNCEMENTS })}
+              style={{ fontSize: '11px', padding: '4px 8px', cursor: 'pointer', background: '#0079d3', color: 'white', border: 'none', borderRadius: '3px' }}
+            >
+              Default
+            </button>
+          </div>
+          {ANNOUNCEMENT_OPTIONS.map(option => {
+            const rule = settings.announcements[option.kind];
+            return (
+              <div
+                key={option.kind}
+                style={{ padding: '8px', marginBottom: '6px', background: 'white', border: '1px solid #ddd', borderRadius: '4px' }}
+              >
+                <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer', fontSize: '12px', fontWeight: 'bold' }}>
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => saveSettings({ announcements: updateAnnouncement(option.kind, { enabled: e.target.checked }) })}
+                    style={{ marginRight: '8px' }}
+                  />
+                  {option.label}
+                </label>
+                <div style={{ fontSize: '11px', color: '#666', margin: '2px 0 6px 24px' }}>
+                  {option.description}
+                </div>
+                <input
+                  type="text"
+                  value={rule.template}
+                  disabled={!rule.enabled}
+                  onChange={(e) => setSettings({ ...settings, announcements: updateAnnouncement(option.kind, { template: e.target.value }) })}
+                  onBlur={() => saveSettings({})}
+                  style={{ width: 'calc(100% - 24px)', marginLeft: '24px', padding: '6px', fontSize: '12px', borderRadius: '4px', border: '1px solid #ccc', boxSizing: 'border-box' }}
+                />
+              </div>
+            );
+          })}
+          <div style={{ fontSize: '11px', color: '#666', marginTop: '4px' }}>
+            Placeholders: {ANNOUNCEMENT_VARIABLES.map(name => `{${name}}`).join(', ')}
+          </div>
+        </div>
+
+        <div style={{ marginBottom: '16px', padding: '12px', background: '#f6f7f8', borderRadius: '4px' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+            <label style={{ fontSize: '13px', fontWeight: 'bold' }}>
+              ⌨️ Keyboard Shortcuts
+            </label>
+            <button
+              onClick={() => chrome.tabs.create({ url: 'chrome://extensions/shortcuts' })}
+              style={{ fontSize: '11px', padding: '4px 8px', cursor: 'pointer', background: '#0079d3', color: 'white', border: 'none', borderRadius: '3px' }}
+            >
+              Customize
+            </button>
+          </div>
+          <div style={{ background: 'white', border: '1px solid #ddd', borderRadius: '4px', padding: '8px' }}>
+            {shortcuts.map(command => (
+              <div
+                key={command.name}
+                style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', padding: '4px 0' }}
+              >
+                <span>{command.description}</span>
+                <span style={{ fontFamily: 'monospace', color: command.shortcut ? '#333' : '#999' }}>
+                  {command.shortcut || 'Not set'}
+                </span>
+              </div>
+            ))}
+          </div>
+          <div style={{ fontSize: '11px', color: '#666', marginTop: '4px' }}>
+            Shortcuts work from any tab while a thread is loaded.
           </div>
         </div>
 
@@ -822,13 +1839,21 @@ function App() {
             ⚙️
           </button>
         </div>
+        {nowPlayingElsewhere}
         <p style={{ margin: '12px 0', color: '#666' }}>{status}</p>
       </div>
     );
   }
 
   const titleBodyOffset = (state?.hasTitle ? 1 : 0) + (state?.hasBody ? 1 : 0);
-  const currentCommentIndex = state?.currentType === 'comment' ? currentIndex - titleBodyOffset : -1;
+  const bodyIndex = state?.hasTitle ? 1 : 0;
+  const commentRows = commentRowsFor(comments, sessionItems, titleBodyOffset);
+  const currentComment = playback?.currentType === 'comment'
+    ? commentRows.find(row => row.itemIndex === currentIndex)?.comment
+    : undefined;
+  const audioExport = playback?.audioExport || null;
+  const isExportingAudio = audioExport?.status === 'rendering' || audioExport?.status === 'finishing';
+  const canExportAudio = settings.tts.backend === 'http';
 
   // Main UI
   return (
@@ -859,10 +1884,36 @@ function App() {
         </div>
       )}
 
+      {nowPlayingElsewhere}
+
+      {playback?.resumePoint && (
+        <div style={{
+          marginBottom: '12px',
+          padding: '10px',
+          background: '#fff3cd',
+          borderRadius: '4px',
+          borderLeft: '4px solid #ffc107'
+        }}>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button onClick={resume} style={{ ...buttonStyle, flex: 3 }}>
+              ↩️ {describeResumePoint(playback.resumePoint)}
+            </button>
+            <button onClick={dismissResume} style={{ ...buttonStyle, background: '#666' }} title="Forget where I left off">
+              Dismiss
+            </button>
+          </div>
+          {!playback.resumePoint.exact && (
+            <div style={{ fontSize: '11px', color: '#666', marginTop: '6px' }}>
+              The comment you stopped at is gone - resuming at the nearest item instead.
+            </div>
+          )}
+        </div>
+      )}
+
       <div style={{ marginBottom: '16px', padding: '12px', background: '#f6f7f8', borderRadius: '4px' }}>
         <div style={{ marginBottom: '12px' }}>
           <div style={{ display: 'flex', gap: '8px', marginBottom: '8px' }}>
-            <button onClick={play} style={buttonStyle} disabled={isPlaying && !state?.isPaused}>
+            <button onClick={play} style={buttonStyle} disabled={isPlaying && !playback?.isPaused}>
               ▶️ Play
             </button>
             <button onClick={pause} style={buttonStyle} disabled={!isPlaying}>
@@ -881,17 +1932,41 @@ function App() {
               ⏭️ Next
             </button>
           </div>
+
+          <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+            <button onClick={previousSentence} style={buttonStyle} title="Back one sentence">
+              ⏪ Sentence
+            </button>
+            <button onClick={nextSentence} style={buttonStyle} title="Forward one sentence">
+              Sentence ⏩
+            </button>
+          </div>
+
+          <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+            <button onClick={parent} style={buttonStyle} title="Back to the comment this one replies to">
+              ↰ Parent
+            </button>
+            <button onClick={restartThread} style={buttonStyle} title="Restart this thread from its top-level comment">
+              ↺ Thread
+            </button>
+            <button onClick={skipReplies} style={buttonStyle} title="Skip this comment's replies">
+              ↷ Replies
+            </button>
+            <button onClick={nextThread} style={buttonStyle} title="Next top-level comment">
+              ⤓ Next Thread
+            </button>
+          </div>
         </div>
 
         <div style={{ marginBottom: '8px', padding: '8px', background: 'white', borderRadius: '4px' }}>
           <label style={{ fontSize: '12px', display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
             <input
               type="checkbox"
-              checked={state?.useUniqueVoices !== false}
-              onChange={(e) => sendMessage('toggleUniqueVoices', { enabled: e.target.checked })}
+              checked={playback?.useUniqueVoices !== false}
+              onChange={(e) => sendCommand('toggleUniqueVoices', { enabled: e.target.checked })}
               style={{ marginRight: '6px' }}
             />
-            <span>🎤 Unique voice per comment ({state?.voiceCount || 0} voices)</span>
+            <span>🎤 Unique voice per author ({playback?.voiceCount || 0} voices)</span>
           </label>
         </div>
 
@@ -913,31 +1988,142 @@ function App() {
         <div style={{ fontSize: '13px', padding: '8px', background: 'white', borderRadius: '4px' }}>
           <div style={{ marginBottom: '4px' }}>
             <strong>Progress:</strong> {currentIndex + 1} / {state?.totalItems || 0}
+            {(playback?.totalChunks || 0) > 1 && (
+              <span style={{ color: '#999', marginLeft: '6px' }}>
+                (sentence {(playback?.currentChunk || 0) + 1} / {playback?.totalChunks})
+              </span>
+            )}
           </div>
-          {state?.currentType === 'title' && (
+          {playback?.currentType === 'title' && (
             <div style={{ marginBottom: '4px', color: '#0079d3', fontWeight: 'bold' }}>
               📰 Reading: Post Title
             </div>
           )}
-          {state?.currentType === 'body' && (
+          {playback?.currentType === 'body' && (
             <div style={{ marginBottom: '4px', color: '#0079d3', fontWeight: 'bold' }}>
               📄 Reading: Post Body
             </div>
           )}
-          {state?.currentType === 'comment' && currentCommentIndex >= 0 && comments[currentCommentIndex] && (
+          {currentComment && (
             <div style={{ marginBottom: '4px' }}>
-              <strong>Author:</strong> u/{comments[currentCommentIndex].author || 'deleted'}
+              <strong>Author:</strong> u/{currentComment.author || 'deleted'}
+            </div>
+          )}
+          {currentComment && currentComment.links.length > 0 && (
+            <div style={{ marginBottom: '4px' }}>
+              <strong>Links:</strong>
+              {currentComment.links.map((link, i) => (
+                <div key={i} style={{ marginLeft: '8px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  <a href={resolveLink(link.url, tabUrl)} target="_blank" rel="noreferrer" title={link.url}>
+                    {link.text || link.url}
+                  </a>
+                </div>
+              ))}
             </div>
           )}
           <div>
             <strong>Status:</strong>{' '}
             <span style={{ color: isPlaying ? '#0079d3' : '#666' }}>
-              {isPlaying ? '🔊 Playing' : state?.isPaused ? '⏸️ Paused' : '⏹️ Stopped'}
+              {isPlaying ? '🔊 Playing' : playback?.isPaused ? '⏸️ Paused' : '⏹️ Stopped'}
             </span>
           </div>
           <div style={{ fontSize: '11px', color: '#999', marginTop: '4px' }}>
             Strategy: {state?.expansionStrategy || 'balanced'}
           </div>
+          {state?.isLoadingMore && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '11px', color: '#0079d3', marginTop: '4px' }}>
+              <span style={{ flex: 1 }}>⏳ Loading more comments... ({state.extractionProgress} on the page so far)</span>
+              <button
+                onClick={stopExtraction}
+                style={{ background: 'none', border: 'none', color: '#999', cursor: 'pointer', fontSize: '11px', padding: 0 }}
+              >
+                Stop
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div style={{ marginTop: '8px', fontSize: '12px', padding: '8px', background: 'white', borderRadius: '4px' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <strong style={{ flex: 1 }}>💾 Export audio</strong>
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as AudioExportFormat)}
+              disabled={isExportingAudio}
+              style={{ fontSize: '12px', padding: '2px' }}
+            >
+              <option value="wav">WAV</option>
+              <option value="opus">Opus</option>
+            </select>
+            {isExportingAudio ? (
+              <button onClick={() => sendCommand('cancelAudioExport', {})} style={{ ...buttonStyle, flex: 'none', padding: '4px 10px', background: '#ff4500' }}>
+                Cancel
+              </button>
+            ) : (
+              <button
+                onClick={exportAudio}
+                disabled={!state || !canExportAudio}
+                style={{ ...buttonStyle, flex: 'none', padding: '4px 10px', opacity: state && canExportAudio ? 1 : 0.5 }}
+              >
+                Export
+              </button>
+            )}
+          </div>
+          {isExportingAudio && audioExport && (
+            <div style={{ marginTop: '6px' }}>
+              <div style={{ height: '6px', background: '#eee', borderRadius: '3px', overflow: 'hidden' }}>
+                <div style={{ width: `${audioExport.total ? (audioExport.done / audioExport.total) * 100 : 0}%`, height: '100%', background: '#0079d3' }} />
+              </div>
+              <div style={{ color: '#666', marginTop: '2px' }}>
+                {audioExport.status === 'finishing' ? 'Writing file...' : `Rendering ${audioExport.done} / ${audioExport.total}`}
+              </div>
+            </div>
+          )}
+          {audioExport?.status === 'done' && (
+            <div style={{ color: '#46d160', marginTop: '4px' }}>Saved to your downloads</div>
+          )}
+          {audioExport?.status === 'cancelled' && (
+            <div style={{ color: '#999', marginTop: '4px' }}>Export cancelled</div>
+          )}
+          {audioExport?.status === 'failed' && (
+            <div style={{ color: '#ff4500', marginTop: '4px' }}>Export failed: {audioExport.error}</div>
+          )}
+          {!canExportAudio && (
+            <div style={{ color: '#999', marginTop: '4px' }}>
+              Needs the local TTS server speech engine (Settings), which returns audio that can be saved.
+            </div>
+          )}
+        </div>
+
+        <div style={{ marginTop: '8px', fontSize: '12px', padding: '8px', background: 'white', borderRadius: '4px' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <strong style={{ flex: 1 }}>📄 Export transcript</strong>
+            <select
+              value={transcriptFormat}
+              onChange={(e) => {
+                setTranscriptFormat(e.target.value as TranscriptFormat);
+                setTranscriptSaved(false);
+              }}
+              style={{ fontSize: '12px', padding: '2px' }}
+            >
+              {TRANSCRIPT_FORMATS.map(format => (
+                <option key={format.value} value={format.value} title={format.description}>{format.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={exportTranscript}
+              disabled={!state}
+              style={{ ...buttonStyle, flex: 'none', padding: '4px 10px', opacity: state ? 1 : 0.5 }}
+            >
+              Export
+            </button>
+          </div>
+          <div style={{ color: '#999', marginTop: '4px' }}>
+            {TRANSCRIPT_FORMATS.find(format => format.value === transcriptFormat)?.description}
+          </div>
+          {transcriptSaved && (
+            <div style={{ color: '#46d160', marginTop: '4px' }}>Saved to your downloads</div>
+          )}
         </div>
       </div>
 
@@ -975,14 +2161,20 @@ function App() {
           }}>
             {/* Title */}
             {state?.hasTitle && state?.title && (
-              <div style={{
-                padding: '8px',
-                marginBottom: '6px',
-                background: currentIndex === 0 ? '#fff3cd' : '#e8f4f8',
-                borderRadius: '4px',
-                borderLeft: `3px solid ${currentIndex === 0 ? '#ffc107' : '#0079d3'}`,
-                fontSize: '12px'
-              }}>
+              <div
+                ref={currentIndex === 0 ? activeRowRef : undefined}
+                onClick={() => seek(0)}
+                title="Play from here"
+                style={{
+                  padding: '8px',
+                  marginBottom: '6px',
+                  background: currentIndex === 0 ? '#fff3cd' : '#e8f4f8',
+                  borderRadius: '4px',
+                  borderLeft: `3px solid ${currentIndex === 0 ? '#ffc107' : '#0079d3'}`,
+                  fontSize: '12px',
+                  cursor: 'pointer'
+                }}
+              >
                 <div style={{ fontWeight: 'bold', marginBottom: '4px', color: '#0079d3' }}>
                   📰 POST TITLE
                 </div>
@@ -994,14 +2186,20 @@ function App() {
 
             {/* Body */}
             {state?.hasBody && (
-              <div style={{
-                padding: '8px',
-                marginBottom: '6px',
-                background: currentIndex === (state?.hasTitle ? 1 : 0) ? '#fff3cd' : '#f0f0f0',
-                borderRadius: '4px',
-                borderLeft: `3px solid ${currentIndex === (state?.hasTitle ? 1 : 0) ? '#ffc107' : '#666'}`,
-                fontSize: '12px'
-              }}>
+              <div
+                ref={currentIndex === bodyIndex ? activeRowRef : undefined}
+                onClick={() => seek(bodyIndex)}
+                title="Play from here"
+                style={{
+                  padding: '8px',
+                  marginBottom: '6px',
+                  background: currentIndex === bodyIndex ? '#fff3cd' : '#f0f0f0',
+                  borderRadius: '4px',
+                  borderLeft: `3px solid ${currentIndex === bodyIndex ? '#ffc107' : '#666'}`,
+                  fontSize: '12px',
+                  cursor: 'pointer'
+                }}
+              >
                 <div style={{ fontWeight: 'bold', marginBottom: '4px', color: '#666' }}>
                   📄 POST BODY
                 </div>
@@ -1009,11 +2207,13 @@ function App() {
             )}
 
             {/* Comments */}
-            {comments.map((comment, index) => {
-              const itemIndex = index + titleBodyOffset;
+            {commentRows.map(({ comment, itemIndex }, index) => {
               return (
                 <div
                   key={comment.id}
+                  ref={itemIndex === currentIndex ? activeRowRef : undefined}
+                  onClick={() => seek(itemIndex)}
+                  title="Play from here"
                   style={{
                     marginLeft: `${comment.depth * 16}px`,
                     padding: '8px',
@@ -1021,11 +2221,14 @@ function App() {
                     background: itemIndex === currentIndex ? '#fff3cd' : '#f6f7f8',
                     borderRadius: '4px',
                     borderLeft: `3px solid ${itemIndex === currentIndex ? '#ffc107' : comment.depth === 0 ? '#0079d3' : '#ff4500'}`,
-                    fontSize: '12px'
+                    fontSize: '12px',
+                    cursor: 'pointer'
                   }}
                 >
                   <div style={{ fontWeight: 'bold', marginBottom: '4px', color: '#333' }}>
                     #{index + 1} · u/{comment.author || 'deleted'}
+                    {comment.isOp && <span style={{ color: '#0079d3', marginLeft: '4px' }}>OP</span>}
+                    {comment.score !== null && <span style={{ color: '#999', marginLeft: '4px' }}>⬆ {comment.score}</span>}
                     {comment.depth > 0 && <span style={{ color: '#999', marginLeft: '4px' }}>↳ depth {comment.depth}</span>}
                   </div>
                   <div style={{ color: '#555', lineHeight: '1.4' }}>
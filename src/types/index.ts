@@ -1,19 +1,53 @@
 // src/types/index.ts
 
+export interface CommentLink {
+  text: string;   // anchor text as shown on the page
+  url: string;
+}
+
+/**
+ * How links are read aloud: dropped, as "link to example dot com", or anchor text plus domain
+ */
+export type LinkMode = 'remove' | 'domain' | 'anchorAndDomain';
+
 export interface CommentData {
   id: string;
   text: string;
   author: string | null;
   depth: number;
   permalink: string;
-  element: HTMLElement;
+  score: number | null;         // null when the site hides or doesn't show it
+  createdAt: number | null;     // epoch milliseconds
+  isOp: boolean;                // written by the post's author
+  links: CommentLink[];
+  element: HTMLElement | null;  // null when extracted without the DOM (JSON mode)
+}
+
+export type ExpansionStrategy = 'breadth' | 'depth' | 'balanced';
+
+/**
+ * How comments are read: scraping the rendered page, or the thread's `.json` representation
+ */
+export type ExtractionMode = 'dom' | 'json';
+
+export type ContentType = 'title' | 'body' | 'comment';
+
+/**
+ * A single readable unit in the playback queue (post title, post body or comment)
+ */
+export interface ContentItem {
+  type: ContentType;
+  text: string;
+  author?: string | null;
+  depth?: number;
+  id?: string;
 }
 
 interface Settings {
   maxDepth: number;
   maxTopLevelComments: number;
   maxTotalComments: number;        // NEW
-  expansionStrategy: 'breadth' | 'depth' | 'balanced';  // NEW
+  expansionStrategy: ExpansionStrategy;  // NEW
   voiceLocale: string;
   hasCompletedSetup: boolean;
 }
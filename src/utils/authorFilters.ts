@@ -0,0 +1,136 @@
+// src/utils/authorFilters.ts
+
+import { CommentData } from '../types';
+import { parseRegexPattern } from './textFilters';
+
+/**
+ * User-editable author filter rules, stored in settings and edited in the popup.
+ * Block rules drop an author's comments; allow rules win over every block rule,
+ * so a real user caught by a broad pattern can be let back in.
+ * Exact and glob rules ignore case like Reddit usernames do; regex rules are
+ * case-sensitive unless written as `/pattern/i`.
+ */
+
+export type AuthorRuleKind = 'exact' | 'glob' | 'regex';
+export type AuthorRuleAction = 'block' | 'allow';
+
+export interface AuthorRule {
+  id: string;
+  kind: AuthorRuleKind;
+  pattern: string;
+  action: AuthorRuleAction;
+  community: string;   // '' applies everywhere, otherwise a subreddit like "askscience"
+  enabled: boolean;
+}
+
+export const DEFAULT_AUTHOR_RULES: AuthorRule[] = [
+  { id: 'default-automoderator', kind: 'exact', pattern: 'AutoModerator', action: 'block', community: '', enabled: true },
+  { id: 'default-underscore-bot', kind: 'glob', pattern: '*_bot', action: 'block', community: '', enabled: true },
+  { id: 'default-dash-bot', kind: 'glob', pattern: '*-bot', action: 'block', community: '', enabled: true },
+  // CamelCase bot names (RemindMeBot) without catching "abbott" or "talbot"
+  { id: 'default-camel-bot', kind: 'regex', pattern: '^[A-Za-z0-9]+Bot$', action: 'block', community: '', enabled: true }
+];
+
+export function createAuthorRule(): AuthorRule {
+  return {
+    id: `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    kind: 'exact',
+    pattern: '',
+    action: 'block',
+    community: '',
+    enabled: true
+  };
+}
+
+/**
+ * "r/AskScience", "/r/askscience/" and "askscience" all name the same subreddit
+ */
+function normalizeCommunity(community: string): string {
+  return community.trim().toLowerCase().replace(/^\/?r\//, '').replace(/\/+$/, '');
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Why a rule can't be used, or null when it is valid
+ */
+export function validateAuthorRule(rule: AuthorRule): string | null {
+  if (!rule.pattern.trim()) return 'Pattern is empty';
+  if (rule.kind !== 'regex') return null;
+
+  try {
+    parseRegexPattern(rule.pattern);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression';
+  }
+}
+
+type AuthorMatcher = (author: string) => boolean;
+
+function compileRule(rule: AuthorRule): AuthorMatcher | null {
+  if (!rule.enabled || validateAuthorRule(rule)) return null;
+
+  const pattern = rule.pattern.trim();
+  switch (rule.kind) {
+    case 'exact': {
+      const name = pattern.replace(/^\/?u\//i, '').toLowerCase();
+      return author => author.toLowerCase() === name;
+    }
+    case 'glob': {
+      const regex = globToRegExp(pattern);
+      return author => regex.test(author);
+    }
+    case 'regex': {
+      const regex = parseRegexPattern(pattern);
+      return author => regex.test(author);
+    }
+  }
+}
+
+export interface AuthorFilterResult {
+  comments: CommentData[];
+  removedByRule: Record<string, number>;   // rule id -> comments removed
+}
+
+/**
+ * Drop comments whose author is blocked in this community.
+ * Each removed comment is credited to the first block rule that matched it.
+ * Replies to a removed comment are kept, like the site's own collapsed view.
+ */
+export function applyAuthorRules(comments: CommentData[], rules: AuthorRule[], community: string): AuthorFilterResult {
+  const here = normalizeCommunity(community);
+  const active = rules
+    .filter(rule => !rule.community.trim() || normalizeCommunity(rule.community) === here)
+    .map(rule => ({ rule, matches: compileRule(rule) }))
+    .filter((entry): entry is { rule: AuthorRule; matches: AuthorMatcher } => entry.matches !== null);
+
+  const allows = active.filter(entry => entry.rule.action === 'allow');
+  const blocks = active.filter(entry => entry.rule.action === 'block');
+
+  const removedByRule: Record<string, number> = {};
+  const kept = comments.filter(comment => {
+    const author = comment.author;
+    if (!author) return true;
+    if (allows.some(entry => entry.matches(author))) return true;
+
+    const blocker = blocks.find(entry => entry.matches(author));
+    if (!blocker) return true;
+
+    removedByRule[blocker.rule.id] = (removedByRule[blocker.rule.id] || 0) + 1;
+    return false;
+  });
+
+  const removed = comments.length - kept.length;
+  if (removed > 0) {
+    console.log(`🚫 Author filters removed ${removed} comments`);
+  }
+
+  return { comments: kept, removedByRule };
+}
@@ -0,0 +1,153 @@
+// src/utils/contentFilters.ts
+
+import { CommentData } from '../types';
+import { parseRegexPattern } from './textFilters';
+import { subtreeEnd } from './scoreFilter';
+
+/**
+ * Content rules match comment text by keyword or regex and decide what reaches
+ * the speaker: skip the comment, skip it with its replies, or mask the matched
+ * words with a spoken "bleep" or silence. Rules run during extraction, so the
+ * popup's comment list shows exactly what will be read.
+ */
+
+export type ContentRuleKind = 'keyword' | 'regex';
+export type ContentRuleAction = 'skip' | 'skipReplies' | 'bleep' | 'silence';
+
+export interface ContentRule {
+  id: string;
+  kind: ContentRuleKind;
+  pattern: string;      // keywords are comma-separated words or phrases
+  action: ContentRuleAction;
+  enabled: boolean;
+}
+
+export const DEFAULT_CONTENT_RULES: ContentRule[] = [];
+
+const BLEEP = 'bleep';
+
+export function createContentRule(): ContentRule {
+  return {
+    id: `content-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    kind: 'keyword',
+    pattern: '',
+    action: 'skip',
+    enabled: true
+  };
+}
+
+function splitKeywords(pattern: string): string[] {
+  return pattern.split(',').map(keyword => keyword.trim()).filter(keyword => keyword.length > 0);
+}
+
+/**
+ * Whole-word, case-insensitive match for any of the keywords.
+ * Lookarounds instead of \b so keywords like "c++" still work.
+ */
+function keywordsToRegExp(keywords: string[]): RegExp {
+  const alternatives = keywords
+    .map(keyword => keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'))
+    .join('|');
+  return new RegExp(`(?<!\\w)(?:${alternatives})(?!\\w)`, 'gi');
+}
+
+function compileRule(rule: ContentRule): RegExp | null {
+  if (!rule.enabled || validateContentRule(rule)) return null;
+  return rule.kind === 'keyword'
+    ? keywordsToRegExp(splitKeywords(rule.pattern))
+    : parseRegexPattern(rule.pattern.trim(), 'g');
+}
+
+/**
+ * Why a rule can't be used, or null when it is valid
+ */
+export function validateContentRule(rule: ContentRule): string | null {
+  if (rule.kind === 'keyword') {
+    return splitKeywords(rule.pattern).length > 0 ? null : 'No keywords';
+  }
+  if (!rule.pattern.trim()) return 'Pattern is empty';
+
+  try {
+    const regex = parseRegexPattern(rule.pattern.trim());
+    // A pattern matching the empty string would mask between every character
+    return regex.test('') ? 'Pattern matches empty text' : null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression';
+  }
+}
+
+function matches(regex: RegExp, text: string): boolean {
+  regex.lastIndex = 0;
+  return regex.test(text);
+}
+
+function mask(text: string, regex: RegExp, action: ContentRuleAction): string {
+  regex.lastIndex = 0;
+  const masked = text.replace(regex, action === 'bleep' ? BLEEP : ' ');
+  return masked.replace(/[^\S\n]+/g, ' ').replace(/ *\n */g, '\n').trim();
+}
+
+export interface ContentFilterResult {
+  comments: CommentData[];
+  matchedByRule: Record<string, number>;   // rule id -> comments it skipped or masked
+}
+
+/**
+ * Apply content rules to extracted comments. Skip rules win over masks; a
+ * comment left with no words after masking is skipped too.
+ */
+export function applyContentRules(comments: CommentData[], rules: ContentRule[]): ContentFilterResult {
+  const active = rules
+    .map(rule => ({ rule, regex: compileRule(rule) }))
+    .filter((entry): entry is { rule: ContentRule; regex: RegExp } => entry.regex !== null);
+
+  const matchedByRule: Record<string, number> = {};
+  const count = (rule: ContentRule) => {
+    matchedByRule[rule.id] = (matchedByRule[rule.id] || 0) + 1;
+  };
+
+  const firstMatch = (text: string, action: ContentRuleAction) =>
+    active.find(entry => entry.rule.action === action && matches(entry.regex, text));
+
+  const kept: CommentData[] = [];
+  let i = 0;
+  while (i < comments.length) {
+    const comment = comments[i];
+
+    const threadRule = firstMatch(comment.text, 'skipReplies');
+    if (threadRule) {
+      count(threadRule.rule);
+      i = subtreeEnd(comments, i);
+      continue;
+    }
+
+    const skipRule = firstMatch(comment.text, 'skip');
+    if (skipRule) {
+      count(skipRule.rule);
+      i++;
+      continue;
+    }
+
+    let text = comment.text;
+    active
+      .filter(entry => entry.rule.action === 'bleep' || entry.rule.action === 'silence')
+      .forEach(entry => {
+        if (matches(entry.regex, text)) {
+          count(entry.rule);
+          text = mask(text, entry.regex, entry.rule.action);
+        }
+      });
+
+    if (text) {
+      kept.push(text === comment.text ? comment : { ...comment, text });
+    }
+    i++;
+  }
+
+  const removed = comments.length - kept.length;
+  if (removed > 0) {
+    console.log(`🔇 Content filters skipped ${removed} comments`);
+  }
+
+  return { comments: kept, matchedByRule };
+}
@@ -0,0 +1,62 @@
+// src/utils/expansionStrategy.ts
+
+import { ExpansionStrategy } from '../types';
+
+export interface ExpansionLimits {
+  targetDepth: number;
+  maxTopLevel: number;
+  topLevelCount: number;
+}
+
+/**
+ * Picks which "load more" targets to expand, in order, for the given strategy.
+ * A target's depth is the depth of the comments it would load (0 = more top-level comments).
+ * Shared by DOM button clicking and JSON `morechildren` expansion so both honour the same limits.
+ *
+ * @param targets - Expandable items with depth information
+ * @param strategy - Breadth-first, depth-first or balanced
+ * @param limits - Depth and top-level limits plus the current top-level count
+ * @returns Targets worth expanding, most important first
+ */
+export function selectExpansionTargets<T extends { depth: number }>(
+  targets: T[],
+  strategy: ExpansionStrategy,
+  limits: ExpansionLimits
+): T[] {
+  const { targetDepth, maxTopLevel, topLevelCount } = limits;
+
+  return targets
+    .filter(item => {
+      switch (strategy) {
+        case 'breadth':
+          if (item.depth === 0 && topLevelCount >= maxTopLevel) {
+            return false;
+          }
+          return item.depth <= Math.min(2, targetDepth);
+
+        case 'depth':
+          if (item.depth === 0 && topLevelCount >= Math.min(10, maxTopLevel)) {
+            return false;
+          }
+          return item.depth < targetDepth;
+
+        case 'balanced':
+        default:
+          if (item.depth === 0 && topLevelCount >= maxTopLevel) {
+            return false;
+          }
+          return item.depth < targetDepth;
+      }
+    })
+    .sort((a, b) => {
+      switch (strategy) {
+        case 'breadth':
+          return a.depth - b.depth;
+        case 'depth':
+          return b.depth - a.depth;
+        case 'balanced':
+        default:
+          return a.depth - b.depth;
+      }
+    });
+}
@@ -0,0 +1,112 @@
+// src/utils/scoreFilter.ts
+
+import { CommentData } from '../types';
+
+/**
+ * Score-based filtering and ordering of extracted comments.
+ * Both work on the flat reading order, where a comment's replies are the
+ * consecutive comments after it with a greater depth.
+ */
+
+export interface ScoreOptions {
+  minScore: number | null;       // null disables the filter
+  dropReplies: boolean;          // also drop the replies under a low-scored comment
+  sortByScore: boolean;          // order top-level threads by score, highest first
+}
+
+/**
+ * Index just past the subtree rooted at `index`
+ */
+export function subtreeEnd(comments: CommentData[], index: number): number {
+  const depth = comments[index].depth;
+  let end = index + 1;
+  while (end < comments.length && comments[end].depth > depth) {
+    end++;
+  }
+  return end;
+}
+
+/**
+ * Drop comments scored below `minScore`. Comments with a hidden or unknown score are kept.
+ */
+export function filterByScore(comments: CommentData[], minScore: number, dropReplies: boolean): CommentData[] {
+  const kept: CommentData[] = [];
+  let removed = 0;
+
+  let i = 0;
+  while (i < comments.length) {
+    const comment = comments[i];
+    const isLow = comment.score !== null && comment.score < minScore;
+
+    if (!isLow) {
+      kept.push(comment);
+      i++;
+    } else if (dropReplies) {
+      const end = subtreeEnd(comments, i);
+      removed += end - i;
+      i = end;
+    } else {
+      removed++;
+      i++;
+    }
+  }
+
+  console.log(`⭐ Score filter (min ${minScore}): removed ${removed} comments`);
+  return kept;
+}
+
+// Unknown scores rank below every known one
+function threadRank(comment: CommentData): number {
+  return comment.score ?? -Infinity;
+}
+
+/**
+ * Reorder top-level threads by score, keeping every reply under its parent.
+ * Unknown scores sort last; ties keep page order. Replies that come before the
+ * first top-level comment (a focused sub-thread) stay in front.
+ */
+export function sortThreadsByScore(comments: CommentData[]): CommentData[] {
+  const leading: CommentData[] = [];
+  const threads: CommentData[][] = [];
+
+  comments.forEach(comment => {
+    if (comment.depth === 0) {
+      threads.push([comment]);
+    } else if (threads.length > 0) {
+      threads[threads.length - 1].push(comment);
+    } else {
+      leading.push(comment);
+    }
+  });
+
+  const sorted = threads
+    .map((thread, order) => ({ thread, order }))
+    .sort((a, b) => threadRank(b.thread[0]) - threadRank(a.thread[0]) || a.order - b.order)
+    .map(({ thread }) => thread);
+
+  return [...leading, ...sorted.flat()];
+}
+
+/**
+ * Insert a top-level thread (its comment and replies) among threads already
+ * sorted by score, after any that score the same
+ */
+export function insertThreadByScore(comments: CommentData[], thread: CommentData[]): CommentData[] {
+  const rank = threadRank(thread[0]);
+  const at = comments.findIndex(comment => comment.depth === 0 && threadRank(comment) < rank);
+  return at < 0 ? [...comments, ...thread] : [...comments.slice(0, at), ...thread, ...comments.slice(at)];
+}
+
+/**
+ * Apply the score settings to freshly extracted comments
+ */
+export function applyScoreOptions(comments: CommentData[], options: ScoreOptions): CommentData[] {
+  let result = comments;
+  if (options.minScore !== null) {
+    result = filterByScore(result, options.minScore, options.dropReplies);
+  }
+  if (options.sortByScore) {
+    result = sortThreadsByScore(result);
+  }
+  return result;
+}
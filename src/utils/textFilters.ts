@@ -0,0 +1,164 @@
+// src/utils/textFilters.ts
+
+import { CommentData, CommentLink, LinkMode } from '../types';
+
+/**
+ * Parse a score attribute, tolerating "1.2k" style abbreviations
+ */
+export function parseScore(value: string | null): number | null {
+  if (!value) return null;
+
+  const match = value.trim().toLowerCase().match(/^(-?[\d.,]+)\s*([km])?/);
+  if (!match) return null;
+
+  const number = parseFloat(match[1].replace(/,/g, ''));
+  if (isNaN(number)) return null;
+
+  const multiplier = match[2] === 'k' ? 1000 : match[2] === 'm' ? 1000000 : 1;
+  return Math.round(number * multiplier);
+}
+
+/**
+ * Parse an ISO timestamp to epoch milliseconds
+ */
+export function parseTimestamp(value: string | null): number | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * Id for a comment whose markup carries none, made from who wrote it and what
+ * it says rather than where it sits, so it is the same on every extraction.
+ * Identical comments are told apart by how many came before.
+ */
+export function contentCommentId(author: string | null, text: string, earlier: CommentData[]): string {
+  let hash = 0;
+  for (const char of `${author || ''}\n${text}`) {
+    hash = (Math.imul(hash, 31) + (char.codePointAt(0) || 0)) | 0;
+  }
+  const id = `comment-${(hash >>> 0).toString(36)}`;
+  const repeats = earlier.filter(comment => comment.id === id || comment.id.startsWith(`${id}-`)).length;
+  return repeats > 0 ? `${id}-${repeats + 1}` : id;
+}
+
+/**
+ * Compile a user-written pattern, either bare (`^foo`) or a literal with flags (`/foo/i`).
+ * Global and sticky flags are dropped so test() stays stateless; callers that
+ * replace every match add 'g' themselves.
+ */
+export function parseRegexPattern(pattern: string, extraFlags = ''): RegExp {
+  const literal = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  const source = literal ? literal[1] : pattern;
+  const flags = (literal ? literal[2] : '').replace(/[gy]/g, '');
+  const merged = Array.from(new Set((flags + extraFlags).split(''))).join('');
+  return new RegExp(source, merged);
+}
+
+const PLAIN_URL = /\b(?:https?:\/\/|www\.)[^\s<>"]+/gi;
+const MARKDOWN_LINK = /\[([^\]]+)\]\(([^)\s]+)\)/g;
+const MENTION = /^\/?[ru]\/[\w-]+\/?$/i;
+
+function isUrlLike(text: string): boolean {
+  const trimmed = text.trim();
+  return /^(https?:\/\/|www\.)/i.test(trimmed) || /^[\w-]+(\.[\w-]+)+(\/\S*)?$/.test(trimmed);
+}
+
+/**
+ * "https://www.nature.com/articles/1" -> "nature dot com"; null for relative or unparseable links
+ */
+export function speakDomain(url: string): string | null {
+  try {
+    const absolute = /^www\./i.test(url) ? `https://${url}` : url;
+    const { hostname } = new URL(absolute);
+    return hostname.replace(/^www\./, '').split('.').join(' dot ') || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * How a single link is read in each mode. Reddit mentions ("r/foo") and links
+ * whose domain can't be worked out keep their text: it is already readable.
+ */
+function speakLink(link: CommentLink, mode: LinkMode): string {
+  const text = link.text.trim();
+  const domain = speakDomain(link.url);
+  const urlText = !text || isUrlLike(text);
+
+  if (MENTION.test(text) || !domain) {
+    return urlText ? '' : text;
+  }
+
+  switch (mode) {
+    case 'remove':
+      return urlText ? '' : text;
+    case 'domain':
+      return `link to ${domain}`;
+    case 'anchorAndDomain':
+      return urlText ? `link to ${domain}` : `${text} (link to ${domain})`;
+  }
+}
+
+/**
+ * Replace the links in a comment's text with their spoken form and collect them.
+ * Markdown links and bare URLs are found in the text; `anchors` are links read
+ * from rendered markup, whose text appears in `text` as plain words.
+ */
+export function processLinks(
+  text: string,
+  mode: LinkMode,
+  anchors: CommentLink[] = []
+): { text: string; links: CommentLink[] } {
+  const links: CommentLink[] = [];
+
+  let result = text.replace(MARKDOWN_LINK, (_match, anchorText: string, url: string) => {
+    const link = { text: anchorText, url };
+    links.push(link);
+    return speakLink(link, mode);
+  });
+
+  // Rendered anchors, in document order
+  let cursor = 0;
+  anchors.forEach(anchor => {
+    const position = anchor.text ? result.indexOf(anchor.text, cursor) : -1;
+    links.push(anchor);
+    if (position < 0) return;
+
+    const spoken = speakLink(anchor, mode);
+    result = result.slice(0, position) + spoken + result.slice(position + anchor.text.length);
+    cursor = position + spoken.length;
+  });
+
+  // Bare URLs that were never linkified; sentence punctuation isn't part of the URL
+  result = result.replace(PLAIN_URL, (match) => {
+    const url = match.replace(/[.,;:!?)\]]+$/, '');
+    const trailing = match.slice(url.length);
+    if (!links.some(link => link.url === url || link.text === url)) {
+      links.push({ text: url, url });
+    }
+    return speakLink({ text: url, url }, mode) + trailing;
+  });
+
+  // Clean up extra spaces, keeping line breaks as paragraph boundaries
+  result = result
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/ *\n\s*/g, '\n')
+    .replace(/ +([.,;:!?])/g, '$1')
+    .trim();
+
+  return { text: result, links };
+}
+
+/**
+ * Links rendered inside an element, with resolved absolute URLs
+ */
+export function collectAnchors(element: Element | null): CommentLink[] {
+  if (!element) return [];
+  return Array.from(element.querySelectorAll('a[href]'))
+    .map(anchor => ({
+      text: anchor.textContent?.trim() || '',
+      url: (anchor as HTMLAnchorElement).href
+    }))
+    .filter(link => link.url.length > 0);
+}
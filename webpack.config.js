@@ -6,7 +6,8 @@ module.exports = {
   entry: {
     content: './src/content/content.ts',
     background: './src/background/background.ts',
-    popup: './src/popup/popup.tsx'
+    popup: './src/popup/popup.tsx',
+    offscreen: './src/offscreen/offscreen.ts'
   },
   module: {
     rules: [
@@ -28,7 +29,8 @@ module.exports = {
     new CopyPlugin({
       patterns: [
         { from: 'manifest.json', to: 'manifest.json' },
-        { from: 'src/popup/popup.html', to: 'popup.html' }
+        { from: 'src/popup/popup.html', to: 'popup.html' },
+        { from: 'src/offscreen/offscreen.html', to: 'offscreen.html' }
       ]
     })
   ]